@@ -1,4 +1,4 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter, withInMemoryScrolling, withViewTransitions } from '@angular/router';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
@@ -6,12 +6,20 @@ import { providePrimeNG } from 'primeng/config';
 import { provideTranslateService } from '@ngx-translate/core';
 import { provideTranslateHttpLoader } from '@ngx-translate/http-loader';
 import { MessageService } from 'primeng/api';
+import { firstValueFrom, of, timeout } from 'rxjs';
 
 // Theme configuration - Import from centralized location
 import { THEME_PRESETS } from './core/services/theme';
 import { THEME_PRESET_STORAGE_KEY, DEFAULT_THEME_PRESET } from './core/constants/theme.constants';
 
 import { authHeaderInterceptor } from './core/interceptors/auth-header-interceptor';
+import { errorHandlerInterceptor } from './core/interceptors/error-handler-interceptor';
+import { loadingInterceptor } from './core/interceptors/loading-interceptor';
+import { httpFixtureInterceptor } from './core/interceptors/http-fixture-interceptor';
+import { fakeBackendInterceptor } from './core/interceptors/fake-backend-interceptor';
+import { AuthService } from './features/auth/services/auth';
+import { SESSION_CONFIG } from './core/constants/api-endpoints.const';
+import { environment } from '../environments/environment';
 
 import { routes } from './app.routes';
 
@@ -52,7 +60,26 @@ export const appConfig: ApplicationConfig = {
       // ✅ Modern Angular: Smooth View Transitions API (Chrome 111+)
       withViewTransitions()
     ),
-    provideHttpClient(withInterceptors([authHeaderInterceptor])),
+    provideHttpClient(withInterceptors([
+      authHeaderInterceptor,
+      errorHandlerInterceptor,
+      loadingInterceptor,
+      httpFixtureInterceptor,
+      // Offline development: serve the API from memory (must stay last)
+      ...(environment.useFakeBackend ? [fakeBackendInterceptor] : [])
+    ])),
+    // Restore the session before anything else runs: drops an expired token
+    // before the first API call and starts the session expiry monitor.
+    // Then verify the token with the API before the first navigation
+    // (bounded, so a slow network doesn't hold the first render - guards keep waiting on authReady)
+    provideAppInitializer(() => {
+      const authService = inject(AuthService);
+      authService.verifySession();
+
+      return firstValueFrom(authService.whenAuthReady().pipe(
+        timeout({ first: SESSION_CONFIG.VERIFY_TIMEOUT_MS, with: () => of(undefined) })
+      ));
+    }),
     provideAnimationsAsync(), // Required by PrimeNG (deprecated in v20.2, but still needed until v23)
     MessageService, // ✅ Global MessageService for Toast notifications
     providePrimeNG({
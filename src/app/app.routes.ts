@@ -1,4 +1,5 @@
 import { Routes } from '@angular/router';
+import { roleGuard } from './core/guards/role-guard';
 
 export const routes: Routes = [
   // Default route - Home feature
@@ -41,6 +42,13 @@ export const routes: Routes = [
     path: 'profile',
     loadChildren: () => import('./features/profile/profile.routes').then(m => m.PROFILE_ROUTES)
   },
+  // Admin feature routes - Users and all orders (admins only)
+  {
+    path: 'admin',
+    canActivate: [roleGuard],
+    data: { roles: ['admin'] },
+    loadChildren: () => import('./features/admin/admin.routes').then(m => m.ADMIN_ROUTES)
+  },
   // ⚠️ TEMPORARY: Handle backend's hardcoded Stripe return URLs
   // Backend redirects to these URLs after Stripe payment
   {
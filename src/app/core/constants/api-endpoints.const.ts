@@ -63,7 +63,8 @@ export const CART_ENDPOINTS = {
   GET_CART: '/cart',
   UPDATE_ITEM: (productId: string) => `/cart/${productId}`,
   REMOVE_ITEM: (productId: string) => `/cart/${productId}`,
-  CLEAR_CART: '/cart'
+  CLEAR_CART: '/cart',
+  APPLY_COUPON: '/cart/applyCoupon'
 } as const;
 
 /**
@@ -114,6 +115,14 @@ export const HEADERS = {
   TOKEN: 'token'                      // Custom token header (NOT Authorization Bearer)
 } as const;
 
+/**
+ * Session Configuration
+ */
+export const SESSION_CONFIG = {
+  WARNING_BEFORE_EXPIRY_MS: 5 * 60 * 1000,   // Show the expiry warning 5 minutes before the JWT exp
+  VERIFY_TIMEOUT_MS: 5000                     // Max time bootstrap waits for token verification
+} as const;
+
 /**
  * Storage Keys
  */
@@ -122,9 +131,26 @@ export const STORAGE_KEYS = {
   USER_DATA: 'user_data',
   LANGUAGE: 'language',
   THEME: 'theme',
-  CART_DATA: 'cart_data'             // For guest cart storage
+  CART_DATA: 'cart_data',            // For guest cart storage
+  GUEST_CART: 'freshcart_cart',       // Guest cart items (CartService)
+  GUEST_WISHLIST: 'freshcart_wishlist', // Guest wishlist product IDs (WishlistService)
+  SAVED_FOR_LATER: 'freshcart_saved_for_later', // Prefix - suffixed with user ID or 'guest' (SavedForLaterService)
+  PASSWORD_RESET: 'password_reset',   // Forgot/reset password flow state
+  SESSION_PERSISTENCE: 'session_persistence', // 'local' | 'session' - where session keys live
+  QUARANTINE: 'freshcart_quarantine'  // Prefix - suffixed with the key of an unreadable entry (StorageService)
 } as const;
 
+/**
+ * Session-scoped storage keys
+ * Stored in the backend chosen at login (localStorage or sessionStorage) - see StorageService.setPersistence
+ */
+export const SESSION_STORAGE_KEYS: readonly string[] = [
+  STORAGE_KEYS.JWT_TOKEN,
+  STORAGE_KEYS.USER_DATA,
+  STORAGE_KEYS.CART_DATA,
+  STORAGE_KEYS.GUEST_CART
+];
+
 /**
  * API Configuration Constants
  */
@@ -134,3 +160,46 @@ export const API_CONFIG = {
   RETRY_ATTEMPTS: 1,                  // Number of retry attempts
   DEFAULT_PAGE_SIZE: 20               // Default pagination size
 } as const;
+
+/**
+ * Default Retry Policy
+ * Applied to GET requests; PUT/DELETE only retry when a call opts in via ApiRequestOptions.retry
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: API_CONFIG.RETRY_ATTEMPTS,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.2,
+  retryableStatuses: [0, 408, 429, 500, 502, 503, 504]
+} as const;
+
+/**
+ * Non-idempotent endpoints - POST requests here are NEVER retried,
+ * even when a call passes a retry policy (POST /cart adds +1 each time,
+ * POST /orders creates a new order each time)
+ */
+export const NON_IDEMPOTENT_ENDPOINT_PREFIXES = ['/cart', '/orders'] as const;
+
+/**
+ * Response Cache Tags
+ * Used to group cached GET responses so mutations can invalidate them together
+ */
+export const CACHE_TAGS = {
+  PRODUCTS: 'products',
+  CATEGORIES: 'categories',
+  SUBCATEGORIES: 'subcategories',
+  BRANDS: 'brands'
+} as const;
+
+/**
+ * Response Cache Policies (stale-while-revalidate)
+ * Matched by endpoint prefix - first match wins
+ * - ttl: entry is served without touching the network
+ * - staleTtl: extra window where the stale entry is served and refreshed in the background
+ */
+export const CACHE_POLICIES = [
+  { prefix: '/products', ttl: 2 * 60 * 1000, staleTtl: 10 * 60 * 1000, tags: [CACHE_TAGS.PRODUCTS] },
+  { prefix: '/categories', ttl: 30 * 60 * 1000, staleTtl: 60 * 60 * 1000, tags: [CACHE_TAGS.CATEGORIES] },
+  { prefix: '/subcategories', ttl: 30 * 60 * 1000, staleTtl: 60 * 60 * 1000, tags: [CACHE_TAGS.SUBCATEGORIES] },
+  { prefix: '/brands', ttl: 30 * 60 * 1000, staleTtl: 60 * 60 * 1000, tags: [CACHE_TAGS.BRANDS] }
+] as const;
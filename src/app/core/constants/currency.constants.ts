@@ -0,0 +1,40 @@
+/**
+ * Currency Constants
+ * Prices come from the API in EGP and orders are always charged in EGP
+ * Other currencies are display-only equivalents converted with the local rates table below
+ */
+
+/**
+ * LocalStorage key for the display currency preference
+ */
+export const CURRENCY_STORAGE_KEY = 'display-currency';
+
+/**
+ * Currency of API prices and of every charge
+ */
+export const BASE_CURRENCY = 'EGP' as const;
+
+/**
+ * Exchange rates from 1 EGP
+ * Update the rates and updatedAt together
+ */
+export const EXCHANGE_RATES = {
+  updatedAt: '2026-10-01',
+  rates: {
+    EGP: 1,
+    USD: 0.0206,
+    EUR: 0.0178,
+    SAR: 0.0773
+  }
+} as const;
+
+/**
+ * Display currency options
+ * labelKey contains the i18n translation key
+ */
+export const CURRENCY_OPTIONS = [
+  { labelKey: 'CURRENCY.EGP', value: 'EGP' },
+  { labelKey: 'CURRENCY.USD', value: 'USD' },
+  { labelKey: 'CURRENCY.EUR', value: 'EUR' },
+  { labelKey: 'CURRENCY.SAR', value: 'SAR' }
+] as const;
@@ -0,0 +1,27 @@
+// HTTP Context Tokens - Per-request flags shared by ApiService and interceptors
+
+import { HttpContextToken } from '@angular/common/http';
+import { RetryPolicy } from '../models/api-response.model';
+import { RequestCategory } from '../models/request-activity.model';
+
+/**
+ * Skip the global error policy (errorHandlerInterceptor) for a request
+ * Set through ApiRequestOptions.skipErrorHandler (or directly on HttpClient calls)
+ */
+export const SKIP_ERROR_HANDLER = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Retry policy ApiService applies to the request (null = no retries)
+ */
+export const RETRY_POLICY = new HttpContextToken<RetryPolicy | null>(() => null);
+
+/**
+ * Retries ApiService has already made for the request (0 = first attempt)
+ * Set by ApiService.withRetry - the context is shared across retries of the same request
+ */
+export const RETRY_ATTEMPT = new HttpContextToken<number>(() => 0);
+
+/**
+ * Activity category reported by loadingInterceptor (null = derive from the HTTP method)
+ */
+export const REQUEST_CATEGORY = new HttpContextToken<RequestCategory | null>(() => null);
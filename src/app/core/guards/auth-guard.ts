@@ -1,23 +1,31 @@
 import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
+import { map } from 'rxjs';
 import { StorageService } from '../services/storage';
+import { AuthService } from '../../features/auth/services/auth';
 
 /**
  * Auth Guard
  * Protects routes that require authentication
  * Redirects unauthenticated users to login page with returnUrl
+ * Waits for token verification (AuthService.authReady) so a rejected token never passes
  */
 export const authGuard: CanActivateFn = (route, state) => {
   const storage = inject(StorageService);
   const router = inject(Router);
+  const authService = inject(AuthService);
 
-  // If user is NOT authenticated, redirect to login with returnUrl
-  if (!storage.isAuthenticated()) {
-    return router.createUrlTree(['/auth/login'], {
-      queryParams: { returnUrl: state.url }
-    });
-  }
+  return authService.whenAuthReady().pipe(
+    map(() => {
+      // If user is NOT authenticated, redirect to login with returnUrl
+      if (!storage.isAuthenticated()) {
+        return router.createUrlTree(['/auth/login'], {
+          queryParams: { returnUrl: state.url }
+        });
+      }
 
-  // Allow authenticated users to access protected routes
-  return true;
+      // Allow authenticated users to access protected routes
+      return true;
+    })
+  );
 };
@@ -1,21 +1,29 @@
 import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
+import { map } from 'rxjs';
 import { StorageService } from '../services/storage';
+import { AuthService } from '../../features/auth/services/auth';
 
 /**
  * Guest Guard
  * Prevents authenticated users from accessing auth pages (login, register)
  * Redirects authenticated users to home page
+ * Waits for token verification so a rejected token doesn't lock the user out of login
  */
 export const guestGuard: CanActivateFn = (route, state) => {
   const storage = inject(StorageService);
   const router = inject(Router);
+  const authService = inject(AuthService);
 
-  // If user is authenticated, redirect to home
-  if (storage.isAuthenticated()) {
-    return router.createUrlTree(['/']);
-  }
+  return authService.whenAuthReady().pipe(
+    map(() => {
+      // If user is authenticated, redirect to home
+      if (storage.isAuthenticated()) {
+        return router.createUrlTree(['/']);
+      }
 
-  // Allow guest users to access auth pages
-  return true;
+      // Allow guest users to access auth pages
+      return true;
+    })
+  );
 };
@@ -0,0 +1,41 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { map } from 'rxjs';
+import { StorageService } from '../services/storage';
+import { AuthService } from '../../features/auth/services/auth';
+import { User } from '../models/user.model';
+
+/**
+ * Role Guard
+ * Restricts routes to the roles listed in route data
+ * Usage: { canActivate: [roleGuard], data: { roles: ['admin'] } }
+ *
+ * - Unauthenticated users go to login with returnUrl
+ * - Authenticated users without a matching role go to home page
+ * - Routes without data.roles only require authentication
+ * - Waits for token verification, which refreshes the stored role
+ */
+export const roleGuard: CanActivateFn = (route, state) => {
+  const storage = inject(StorageService);
+  const router = inject(Router);
+  const authService = inject(AuthService);
+
+  return authService.whenAuthReady().pipe(
+    map(() => {
+      if (!storage.isAuthenticated()) {
+        return router.createUrlTree(['/auth/login'], {
+          queryParams: { returnUrl: state.url }
+        });
+      }
+
+      const roles = (route.data['roles'] as User['role'][] | undefined) ?? [];
+      const role = storage.getCurrentUserRole() as User['role'] | null;
+
+      if (roles.length > 0 && (!role || !roles.includes(role))) {
+        return router.createUrlTree(['/']);
+      }
+
+      return true;
+    })
+  );
+};
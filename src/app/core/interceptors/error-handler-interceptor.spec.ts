@@ -0,0 +1,70 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { errorHandlerInterceptor } from './error-handler-interceptor';
+import { ApiService } from '../services/api';
+import { ErrorNotifierService } from '../services/error-notifier';
+import { environment } from '../../../environments/environment';
+import { API_CONFIG, DEFAULT_RETRY_POLICY } from '../constants/api-endpoints.const';
+
+describe('errorHandlerInterceptor', () => {
+  let api: ApiService;
+  let httpTesting: HttpTestingController;
+  let notifier: jasmine.SpyObj<ErrorNotifierService>;
+
+  const RETRY_WAIT_MS = DEFAULT_RETRY_POLICY.maxDelayMs;
+
+  beforeEach(() => {
+    notifier = jasmine.createSpyObj<ErrorNotifierService>('ErrorNotifierService', ['notify']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([errorHandlerInterceptor])),
+        provideHttpClientTesting(),
+        { provide: ErrorNotifierService, useValue: notifier }
+      ]
+    });
+    api = TestBed.inject(ApiService);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  function expectProducts(): TestRequest {
+    return httpTesting.expectOne(req => req.url === `${environment.apiUrl}/products`);
+  }
+
+  function failWithServerError(req: TestRequest): void {
+    req.flush({ statusMsg: 'fail', message: 'Server error' }, { status: 500, statusText: 'Internal Server Error' });
+  }
+
+  it('should only report the failure ApiService does not retry', fakeAsync(() => {
+    api.getCollection('/products', undefined, { cache: false }).subscribe({ error: () => {} });
+
+    failWithServerError(expectProducts());
+    expect(notifier.notify).not.toHaveBeenCalled();
+
+    tick(RETRY_WAIT_MS);
+    failWithServerError(expectProducts());
+    expect(notifier.notify).toHaveBeenCalledOnceWith('server');
+  }));
+
+  it('should count a client-side timeout as an attempt', fakeAsync(() => {
+    api.getCollection('/products', undefined, { cache: false }).subscribe({ error: () => {} });
+
+    expectProducts();
+    tick(API_CONFIG.COLLECTION_TIMEOUT); // Never reaches the interceptor
+    tick(RETRY_WAIT_MS);
+
+    failWithServerError(expectProducts());
+    expect(notifier.notify).toHaveBeenCalledOnceWith('server');
+  }));
+
+  it('should report failures that are not retryable right away', fakeAsync(() => {
+    api.getCollection('/products', undefined, { cache: false, retry: false }).subscribe({ error: () => {} });
+
+    failWithServerError(expectProducts());
+    expect(notifier.notify).toHaveBeenCalledOnceWith('server');
+  }));
+});
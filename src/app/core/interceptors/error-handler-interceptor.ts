@@ -1,23 +1,92 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import {
+  HttpErrorResponse,
+  HttpInterceptorFn,
+  HttpRequest
+} from '@angular/common/http';
+import { Injector, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { catchError, throwError } from 'rxjs';
+
+import { environment } from '../../../environments/environment';
+import { StorageService } from '../services/storage';
+import { ErrorNotifierService } from '../services/error-notifier';
+import { AuthService } from '../../features/auth/services/auth';
+import { AUTH_ENDPOINTS } from '../constants/api-endpoints.const';
+import { RETRY_ATTEMPT, RETRY_POLICY, SKIP_ERROR_HANDLER } from '../constants/http-context.const';
+import { categorizeHttpError } from '../../shared/utils/error.utils';
+import { resolveRetryDelay } from '../../shared/utils/retry.utils';
+
+/**
+ * Endpoints where 401 means "wrong credentials", not "session expired"
+ */
+const CREDENTIAL_ENDPOINTS: readonly string[] = [
+  AUTH_ENDPOINTS.SIGNIN,
+  AUTH_ENDPOINTS.SIGNUP,
+  AUTH_ENDPOINTS.FORGOT_PASSWORD,
+  AUTH_ENDPOINTS.VERIFY_RESET_CODE,
+  AUTH_ENDPOINTS.RESET_PASSWORD
+];
 
 /**
  * Error Handler Interceptor
- * 
- * NOTE: This interceptor is intentionally minimal.
- * Error handling is done at the ApiService level and in individual components.
- * 
- * ApiService handles:
- * - HTTP error parsing and standardization
- * - Network/timeout error messages
- * - API error format parsing ({ statusMsg: "fail", message: "..." })
- * 
- * Components handle:
- * - User-friendly error displays
- * - Retry mechanisms
- * - Context-specific error actions
- * 
- * This approach provides better control and user experience than global error handling.
+ * Global HTTP error policy for API requests
+ *
+ * - 401 with a stored token: session is cleared and the user is sent to /auth/login?returnUrl=...
+ * - Network failures, timeouts and 5xx: one deduplicated toast (ErrorNotifierService)
+ * - Other 4xx: left to the calling component (context-specific messages)
+ *
+ * Failures ApiService is about to retry are ignored - only the final failure counts.
+ * The error is always rethrown so ApiService can still build its ApiError.
+ * Opt out per request with ApiRequestOptions.skipErrorHandler.
  */
 export const errorHandlerInterceptor: HttpInterceptorFn = (req, next) => {
-  return next(req);
+  if (req.context.get(SKIP_ERROR_HANDLER) || !req.url.startsWith(environment.apiUrl)) {
+    return next(req);
+  }
+
+  // Services are resolved lazily: TranslateService loads its files through HttpClient
+  const injector = inject(Injector);
+
+  return next(req).pipe(
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse && !willRetry(req, error)) {
+        applyErrorPolicy(injector, req, error);
+      }
+      return throwError(() => error);
+    })
+  );
 };
+
+/**
+ * Whether ApiService will retry this failure (mirrors ApiService.withRetry)
+ * The attempt comes from ApiService - counting here would miss client-side timeouts
+ */
+function willRetry(req: HttpRequest<unknown>, error: HttpErrorResponse): boolean {
+  const policy = req.context.get(RETRY_POLICY);
+  const attempt = req.context.get(RETRY_ATTEMPT) + 1; // Retry that would follow this failure
+
+  return policy !== null
+    && attempt <= policy.maxAttempts
+    && resolveRetryDelay(error, policy, attempt) !== null;
+}
+
+function applyErrorPolicy(injector: Injector, req: HttpRequest<unknown>, error: HttpErrorResponse): void {
+  const category = categorizeHttpError(error.status);
+  const notifier = injector.get(ErrorNotifierService);
+
+  if (error.status === 401) {
+    const isCredentialCheck = CREDENTIAL_ENDPOINTS.some(endpoint => req.url.includes(endpoint));
+
+    // Only an existing session can expire - anonymous 401s are left to the caller
+    if (!isCredentialCheck && injector.get(StorageService).getToken()) {
+      const returnUrl = injector.get(Router).url;
+      injector.get(AuthService).expireSession(returnUrl);
+      notifier.notify('auth');
+    }
+    return;
+  }
+
+  if (category === 'network' || category === 'timeout' || category === 'server') {
+    notifier.notify(category);
+  }
+}
@@ -0,0 +1,21 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { FakeBackendService } from '../services/fake-backend';
+
+/**
+ * Fake Backend Interceptor
+ * Serves Route e-commerce API requests from the in-memory FakeBackendService
+ * so the app and specs can run fully offline
+ *
+ * Opt-in: only registered when environment.useFakeBackend is true (see app.config.ts)
+ * Must be the LAST interceptor so the token header is already attached
+ */
+export const fakeBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  // Only API calls are faked - assets (i18n, images) still go through
+  if (!req.url.startsWith(environment.apiUrl)) {
+    return next(req);
+  }
+
+  return inject(FakeBackendService).handle(req);
+};
@@ -0,0 +1,40 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { tap } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { HttpFixtureService } from '../services/http-fixture';
+
+/**
+ * HTTP Fixture Interceptor
+ * Records or replays API traffic depending on HttpFixtureService.mode()
+ *
+ * - off: pass-through
+ * - record: pass-through, capture response or error
+ * - replay: answer from the loaded fixture bundle (no network)
+ *
+ * Registered after authHeaderInterceptor so the recorded token header can be scrubbed
+ */
+export const httpFixtureInterceptor: HttpInterceptorFn = (req, next) => {
+  const fixtures = inject(HttpFixtureService);
+  const mode = fixtures.mode();
+
+  // Only API calls are recorded/replayed - assets (i18n, images) always go through
+  if (mode === 'off' || !req.url.startsWith(environment.apiUrl)) {
+    return next(req);
+  }
+
+  if (mode === 'replay') {
+    return fixtures.replay(req);
+  }
+
+  return next(req).pipe(
+    tap({
+      next: event => {
+        if (event instanceof HttpResponse) {
+          fixtures.record(req, event.status, event.body);
+        }
+      },
+      error: (error: HttpErrorResponse) => fixtures.record(req, error.status, error.error)
+    })
+  );
+};
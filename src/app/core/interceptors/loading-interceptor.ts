@@ -1,22 +1,33 @@
 import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { finalize } from 'rxjs';
+
+import { environment } from '../../../environments/environment';
+import { RequestActivityService } from '../services/request-activity';
+import { REQUEST_CATEGORY } from '../constants/http-context.const';
+import { HTTP_METHODS } from '../constants/api-endpoints.const';
 
 /**
  * Loading Interceptor
- * 
- * NOTE: This interceptor is intentionally minimal.
- * We use component-level loading states with skeleton UI instead of global loading spinners.
- * 
- * Benefits of skeleton approach:
- * - Better UX: Non-blocking, contextual loading feedback
- * - Performance: No global state management overhead
- * - Modern: Follows current best practices (Facebook, LinkedIn pattern)
- * 
- * Each component manages its own loading state:
- * - ProductListComponent: skeleton cards
- * - ProductDetailsComponent: skeleton layout
- * - ProductSearchComponent: skeleton grids
- * - FeaturedProducts: skeleton items
+ * Reports every API request to RequestActivityService until it settles
+ *
+ * Category: REQUEST_CATEGORY context token if set, otherwise
+ * GET → navigation, anything else → mutation
+ *
+ * NOTE: Components keep their skeleton UI for content loading.
+ * The activity counts only drive the thin progress bar in MainLayout
+ * (mutations and slow requests), they never block the page.
  */
 export const loadingInterceptor: HttpInterceptorFn = (req, next) => {
-  return next(req);
+  if (!req.url.startsWith(environment.apiUrl)) {
+    return next(req);
+  }
+
+  const activity = inject(RequestActivityService);
+  const category = req.context.get(REQUEST_CATEGORY)
+    ?? (req.method === HTTP_METHODS.GET ? 'navigation' : 'mutation');
+
+  const done = activity.start(category);
+
+  return next(req).pipe(finalize(done));
 };
@@ -16,6 +16,7 @@ import { MenuItem, PrimeIcons } from 'primeng/api';
 import { Subscription, combineLatest } from 'rxjs';
 import { I18nService } from '../../services/i18n';
 import { ThemeService, ThemePreset, THEME_PRESETS } from '../../services/theme';
+import { CurrencyService, CurrencyCode } from '../../services/currency';
 import { AuthService } from '../../../features/auth/services/auth';
 import { CartStore } from '../../../features/cart/store/cart.store';
 import { WishlistStore } from '../../../features/wishlist/store/wishlist.store';
@@ -30,6 +31,7 @@ import { WishlistStore } from '../../../features/wishlist/store/wishlist.store';
 export class Header implements OnInit, OnDestroy {
   private readonly i18nService = inject(I18nService);
   private readonly themeService = inject(ThemeService);
+  private readonly currencyService = inject(CurrencyService);
   private readonly translateService = inject(TranslateService);
   private readonly authService = inject(AuthService);
   private readonly cartStore = inject(CartStore);
@@ -42,6 +44,7 @@ export class Header implements OnInit, OnDestroy {
   readonly isAuthenticated = toSignal(this.authService.isAuthenticated$, { initialValue: false });
   readonly currentUser = toSignal(this.authService.currentUser$, { initialValue: null });
   readonly currentUserName = computed(() => this.currentUser()?.name ?? null);
+  readonly isAdmin = computed(() => this.currentUser()?.role === 'admin');
   
   readonly currentLanguage = this.i18nService.currentLanguage;
   readonly isDarkMode = this.themeService.isDarkMode;
@@ -64,6 +67,19 @@ export class Header implements OnInit, OnDestroy {
     }))
   );
   
+  // Display currency management
+  readonly displayCurrency = this.currencyService.displayCurrency;
+  readonly ratesUpdatedLabel = this.currencyService.ratesUpdatedLabel;
+  
+  // Currency menu items (labels translated in the menu item template via state.labelKey)
+  readonly currencyMenuItems = computed<MenuItem[]>(() => 
+    this.currencyService.options.map(option => ({
+      label: option.value,
+      state: { labelKey: option.labelKey },
+      command: () => this.onCurrencyChange(option.value)
+    }))
+  );
+  
   // ✅ MINIMAL CHANGE: Only the parts that need reactivity
   // Store translations in a signal for reactive menu items
   private readonly translationStrings = signal({
@@ -77,6 +93,7 @@ export class Header implements OnInit, OnDestroy {
     viewProfile: '',
     addresses: '',
     settings: '',
+    admin: '',
     logout: ''
   });
   
@@ -163,7 +180,7 @@ export class Header implements OnInit, OnDestroy {
     return items;
   });
 
-  // User dropdown menu items (Profile, Addresses, Settings, Logout)
+  // User dropdown menu items (Profile, Addresses, Settings, Admin for admins, Logout)
   // Note: Orders is in main menu, not in dropdown
   readonly userMenuItems = computed<MenuItem[]>(() => {
     const t = this.translationStrings();
@@ -187,6 +204,11 @@ export class Header implements OnInit, OnDestroy {
         icon: PrimeIcons.COG,
         routerLink: '/profile/settings'
       },
+      ...(this.isAdmin() ? [{
+        label: t.admin,
+        icon: PrimeIcons.SHIELD,
+        routerLink: '/admin'
+      }] : []),
       {
         separator: true
       },
@@ -201,8 +223,9 @@ export class Header implements OnInit, OnDestroy {
   ngOnInit(): void {
     // Watch for authentication changes and update cart & wishlist accordingly
     this.authSubscription = this.authService.isAuthenticated$.subscribe(isAuthenticated => {
-      this.cartStore.onAuthenticationChange(isAuthenticated);
-      this.wishlistStore.onAuthenticationChange(isAuthenticated);
+      const fromOtherTab = this.authService.isAuthChangeFromOtherTab();
+      this.cartStore.onAuthenticationChange(isAuthenticated, fromOtherTab);
+      this.wishlistStore.onAuthenticationChange(isAuthenticated, fromOtherTab);
     });
     
     // ✅ Keep translation observable - it works fine and changes rarely
@@ -218,10 +241,11 @@ export class Header implements OnInit, OnDestroy {
       this.translateService.stream('NAVIGATION.VIEW_PROFILE'),
       this.translateService.stream('NAVIGATION.ADDRESSES'),
       this.translateService.stream('NAVIGATION.SETTINGS'),
+      this.translateService.stream('NAVIGATION.ADMIN'),
       this.translateService.stream('NAVIGATION.LOGOUT')
-    ]).subscribe(([home, products, categories, brands, cart, wishlist, orders, viewProfile, addresses, settings, logout]) => {
+    ]).subscribe(([home, products, categories, brands, cart, wishlist, orders, viewProfile, addresses, settings, admin, logout]) => {
       // Update translation signal - menuItems computed will auto-update
-      this.translationStrings.set({ home, products, categories, brands, cart, wishlist, orders, viewProfile, addresses, settings, logout });
+      this.translationStrings.set({ home, products, categories, brands, cart, wishlist, orders, viewProfile, addresses, settings, admin, logout });
     });
   }
 
@@ -244,6 +268,13 @@ export class Header implements OnInit, OnDestroy {
     this.themeService.toggleTheme();
   }
 
+  /**
+   * Change display currency
+   */
+  onCurrencyChange(currency: CurrencyCode): void {
+    this.currencyService.setCurrency(currency);
+  }
+
   /**
    * Change theme preset
    */
@@ -4,10 +4,15 @@ import { RouterOutlet, Router, NavigationStart, NavigationEnd, NavigationCancel,
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { ToastModule } from 'primeng/toast';
 import { ScrollTopModule } from 'primeng/scrolltop';
+import { ProgressBarModule } from 'primeng/progressbar';
 
 import { Header } from '../header/header';
 import { Footer } from '../footer/footer';
 import { LoadingSpinner } from '../../../shared/components/loading-spinner/loading-spinner';
+import { RequestActivityService } from '../../services/request-activity';
+import { SessionExpiryDialogComponent } from '../../../features/auth/components/session-expiry-dialog/session-expiry-dialog';
+import { CartMergeDialogComponent } from '../../../features/cart/components/cart-merge-dialog/cart-merge-dialog';
+import { CartUndoToastComponent } from '../../../features/cart/components/cart-undo-toast/cart-undo-toast';
 
 /**
  * Main application layout wrapper
@@ -20,19 +25,27 @@ import { LoadingSpinner } from '../../../shared/components/loading-spinner/loadi
     RouterOutlet,
     ToastModule,
     ScrollTopModule,
+    ProgressBarModule,
     Header,
     Footer,
-    LoadingSpinner
+    LoadingSpinner,
+    SessionExpiryDialogComponent,
+    CartMergeDialogComponent,
+    CartUndoToastComponent
   ],
   templateUrl: './main-layout.html',
   styleUrl: './main-layout.scss'
 })
 export class MainLayout {
   private router = inject(Router);
+  private readonly requestActivity = inject(RequestActivityService);
   
   /** Navigation state - true during route transitions */
   readonly isNavigating = signal(false);
 
+  /** Top progress bar - pending mutations and slow requests only */
+  readonly showProgress = this.requestActivity.showProgress;
+
   constructor() {
     // Monitor router events for loading state
     // Subscription automatically cleaned up on component destroy
@@ -1,6 +1,8 @@
 // API Response Models - Based on Real API Testing
 // Updated: 2025-01-27 with actual response formats
 
+import { Schema, SchemaIssue } from '../../shared/utils/schema.utils';
+
 /**
  * Collection Response Format (Products, Categories, Brands)
  * Based on real API response: GET /api/v1/categories, /api/v1/products
@@ -45,6 +47,22 @@ export interface AuthResponse {
   token: string;                      // JWT token
 }
 
+/**
+ * Token Verification Response Format
+ * Based on real API response: GET /api/v1/auth/verifyToken
+ * ⚠️ Returns the decoded JWT payload (no email) - not a User object
+ */
+export interface VerifyTokenResponse {
+  message: string;                    // "verified"
+  decoded: {
+    id: string;                       // User ID
+    name: string;
+    role: string;                     // "user" or "admin"
+    iat: number;                      // Issued at (seconds)
+    exp: number;                      // Expires at (seconds)
+  };
+}
+
 /**
  * Error Response Format
  * Based on real API response: Invalid endpoints return this format
@@ -52,6 +70,29 @@ export interface AuthResponse {
 export interface ApiError {
   statusMsg: string;                  // "fail"
   message: string;                    // Error description
+  status?: number;                    // HTTP status (0 = network failure)
+  category?: ApiErrorCategory;        // Error category (see categorizeHttpError)
+  decodeIssue?: ApiDecodeIssue;       // Present when the response did not match its schema
+}
+
+/**
+ * Error Category
+ * - network: request never reached the server (offline, DNS, CORS)
+ * - timeout: request took longer than the client timeout
+ * - server: 5xx responses
+ * - auth: 401/403 responses
+ * - client: other 4xx responses (validation, not found, ...)
+ * - contract: response did not match its runtime schema
+ */
+export type ApiErrorCategory = 'network' | 'timeout' | 'server' | 'auth' | 'client' | 'contract' | 'unknown';
+
+/**
+ * Response Shape Mismatch Details
+ * Raised by ApiService when a response fails runtime schema validation
+ */
+export interface ApiDecodeIssue extends SchemaIssue {
+  method: string;                     // HTTP method
+  endpoint: string;                   // API endpoint (without base URL)
 }
 
 /**
@@ -61,6 +102,25 @@ export interface ApiRequestOptions {
   headers?: { [key: string]: string };
   params?: { [key: string]: string | number | boolean };
   requiresAuth?: boolean;             // Whether request requires authentication
+  cache?: boolean;                    // Set to false to bypass the response cache (GET collection/item only)
+  invalidateTags?: readonly string[]; // Cache tags to drop after a successful mutation
+  retry?: Partial<RetryPolicy> | false; // Per-call retry policy (false disables retries)
+  schema?: Schema<unknown>;           // Runtime schema the response body must match
+  skipErrorHandler?: boolean;         // Opt out of the global error policy (toasts, 401 auto-logout)
+  background?: boolean;               // Track as background activity (never shows the progress bar)
+}
+
+/**
+ * Retry Policy for HTTP requests
+ * Delay for attempt n: min(maxDelayMs, baseDelayMs * 2^(n-1)) ± jitter
+ * Retry-After headers on 429/503 take precedence over the computed backoff
+ */
+export interface RetryPolicy {
+  maxAttempts: number;                // Retries after the initial request
+  baseDelayMs: number;                // First backoff delay
+  maxDelayMs: number;                 // Upper bound for any single delay (incl. Retry-After)
+  jitter: number;                     // Random spread as a ratio of the delay (0 - 1)
+  retryableStatuses: readonly number[]; // HTTP statuses worth retrying (0 = network error)
 }
 
 /**
@@ -0,0 +1,70 @@
+// API Response Schemas - Runtime validation for api-response.model.ts
+// Checked inside ApiService via ApiRequestOptions.schema
+
+import { Schema, s } from '../../shared/utils/schema.utils';
+
+/**
+ * Pagination Metadata Schema
+ */
+export const paginationMetadataSchema = s.object({
+  currentPage: s.number(),
+  numberOfPages: s.number(),
+  limit: s.number(),
+  nextPage: s.optional(s.number()),
+  prevPage: s.optional(s.number())
+});
+
+/**
+ * Collection Response Schema ({ results, metadata, data[] })
+ */
+export function collectionResponseSchema<T>(item: Schema<T>) {
+  return s.object({
+    results: s.number(),
+    metadata: paginationMetadataSchema,
+    data: s.array(item)
+  });
+}
+
+/**
+ * Single Item Response Schema ({ data })
+ */
+export function singleItemResponseSchema<T>(item: Schema<T>) {
+  return s.object({
+    data: item
+  });
+}
+
+/**
+ * Authentication Response Schema
+ * POST /auth/signup, POST /auth/signin
+ */
+export const authResponseSchema = s.object({
+  message: s.string(),
+  user: s.object({
+    name: s.string(),
+    email: s.string(),
+    role: s.string()
+  }),
+  token: s.string()
+});
+
+/**
+ * Reset Password Response Schema
+ * PUT /auth/resetPassword - ⚠️ the API only guarantees the token here (no user)
+ */
+export const resetPasswordResponseSchema = s.object({
+  token: s.string()
+});
+
+/**
+ * Verify Token Response Schema
+ * GET /auth/verifyToken
+ */
+export const verifyTokenResponseSchema = s.object({
+  message: s.string(),
+  decoded: s.object({
+    id: s.string(),
+    name: s.string(),
+    role: s.string()
+  })
+});
@@ -0,0 +1,42 @@
+// Cross-Tab Sync Models - Messages exchanged between open FreshCart tabs
+// Used by CrossTabSyncService (BroadcastChannel, storage event fallback)
+
+import { User } from './user.model';
+
+/**
+ * Cross-tab message type
+ * - auth:login: a user signed in (or re-authenticated)
+ * - auth:logout: the session ended (logout or expiry)
+ * - auth:token-refreshed: the token or user data changed (password change, profile update)
+ * - cart:changed / wishlist:changed: a cart or wishlist mutation succeeded
+ * - session:request / session:share: a tab without a session asks the others for a copy
+ *   of a sessionStorage-only session ("keep me signed in" unchecked)
+ */
+export type CrossTabMessageType =
+  | 'auth:login'
+  | 'auth:logout'
+  | 'auth:token-refreshed'
+  | 'cart:changed'
+  | 'wishlist:changed'
+  | 'session:request'
+  | 'session:share';
+
+/**
+ * Session copy for tabs using sessionStorage (which is not shared between tabs)
+ */
+export interface CrossTabSession {
+  token: string;
+  user: User;
+}
+
+/**
+ * Cross-tab message
+ * Messages only say WHAT changed - receivers re-read storage or reload from the API
+ * (except sessionStorage-only sessions, which travel with the message)
+ */
+export interface CrossTabMessage {
+  type: CrossTabMessageType;
+  tabId: string;                      // Sender tab (own messages are ignored)
+  sentAt: number;                     // Timestamp (ms)
+  session?: CrossTabSession;          // BroadcastChannel only - never written to localStorage
+}
@@ -0,0 +1,34 @@
+// HTTP Fixture Models - Record/Replay of API traffic
+// Used by HttpFixtureService to capture and serve deterministic fixtures
+
+/**
+ * Fixture mode
+ * - off: requests go to the network
+ * - record: requests go to the network and request/response pairs are captured
+ * - replay: requests are answered from the loaded fixture bundle (no network)
+ */
+export type HttpFixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * Single recorded request/response pair
+ */
+export interface HttpFixtureEntry {
+  method: string;                     // HTTP method (GET, POST, ...)
+  path: string;                       // Endpoint without API base URL (e.g. "/products")
+  query: string;                      // Normalized query string (sorted keys and values)
+  requestHeaders: Record<string, string>; // Request headers (token scrubbed)
+  requestBody: unknown;               // Request body (password fields scrubbed)
+  status: number;                     // HTTP status code
+  responseBody: unknown;              // Response body (or error body) - tokens reduced to unsigned claims
+  recordedAt: string;                 // ISO timestamp
+}
+
+/**
+ * Downloadable fixture bundle
+ */
+export interface HttpFixtureBundle {
+  version: 1;                         // Bundle format version
+  apiUrl: string;                     // API base URL the fixtures were recorded against
+  createdAt: string;                  // ISO timestamp
+  entries: HttpFixtureEntry[];        // Recorded pairs in chronological order
+}
@@ -0,0 +1,15 @@
+// Request Activity Models - Pending HTTP request tracking
+// Used by RequestActivityService and loadingInterceptor
+
+/**
+ * Request category
+ * - navigation: GET requests loading data for the current page (default for GET)
+ * - mutation: POST/PUT/PATCH/DELETE requests (cart, wishlist, checkout writes)
+ * - background: cache revalidation and calls flagged with ApiRequestOptions.background
+ */
+export type RequestCategory = 'navigation' | 'mutation' | 'background';
+
+/**
+ * Pending request counts per category
+ */
+export type RequestActivityCounts = Record<RequestCategory, number>;
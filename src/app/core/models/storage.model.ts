@@ -0,0 +1,47 @@
+// Storage Models - Persistence options for StorageService
+
+import { Schema } from '../../shared/utils/schema.utils';
+
+/**
+ * Session persistence
+ * - local: survives browser restarts ("keep me signed in")
+ * - session: sessionStorage, ends when the browser closes (shared computers)
+ */
+export type StoragePersistence = 'local' | 'session';
+
+/**
+ * Versioned storage envelope - how StorageService.setVersionedItem writes an entry
+ */
+export interface StorageEnvelope<T> {
+  version: number;                    // Schema version of data
+  savedAt: number;                    // When saved (epoch ms) - used for TTL expiry
+  data: T;
+}
+
+/**
+ * Storage migration - upgrades data from version N-1 to version N
+ */
+export type StorageMigration = (data: unknown) => unknown;
+
+/**
+ * Versioned storage definition for a single key
+ * - migrations[N] upgrades data saved at version N-1; entries written before the envelope existed are version 0
+ * - Data is validated against schema after migrating
+ */
+export interface VersionedStorageDefinition<T> {
+  version: number;                    // Current schema version
+  schema: Schema<unknown>;            // Shape of data at the current version (only checked fields)
+  migrations: Record<number, StorageMigration>;
+  ttlMs?: number;                     // Entries older than this are dropped (no expiry when omitted)
+}
+
+/**
+ * Quarantined storage entry
+ * Unreadable entries are moved aside (not dropped) so they can be inspected later
+ */
+export interface QuarantinedStorageEntry {
+  key: string;                        // Original storage key
+  raw: string;                        // Raw stored value, as found
+  reason: string;                     // Why the entry could not be read
+  quarantinedAt: number;              // When it was moved aside
+}
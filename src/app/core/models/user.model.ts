@@ -60,6 +60,22 @@ export interface PasswordReset {
   newPassword: string;
 }
 
+/**
+ * Password Reset Flow Step
+ * email → code (6-digit code sent by email) → password (new password)
+ */
+export type PasswordResetStep = 'email' | 'code' | 'password';
+
+/**
+ * Password Reset Flow State
+ * Persisted by PasswordResetFlowService so the flow survives a page refresh
+ */
+export interface PasswordResetFlowState {
+  email: string;
+  step: PasswordResetStep;
+  codeSentAt: number;                 // Timestamp of the last code email (resend cooldown)
+}
+
 /**
  * Change Password Request Interface
  */
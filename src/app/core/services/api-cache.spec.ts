@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpContext } from '@angular/common/http';
+import { Observable, Subject, defer, firstValueFrom, of } from 'rxjs';
+
+import { ApiCacheService } from './api-cache';
+import { CACHE_TAGS } from '../constants/api-endpoints.const';
+import { REQUEST_CATEGORY } from '../constants/http-context.const';
+
+const MINUTE = 60 * 1000;
+
+describe('ApiCacheService', () => {
+  let cache: ApiCacheService;
+  let now: number;
+  let calls: number;
+
+  beforeEach(() => {
+    cache = TestBed.inject(ApiCacheService);
+    now = Date.UTC(2026, 0, 1);
+    calls = 0;
+    spyOn(Date, 'now').and.callFake(() => now);
+  });
+
+  /**
+   * Network stand-in that counts subscriptions
+   */
+  function request<T>(value: T): Observable<T> {
+    return defer(() => {
+      calls++;
+      return of(value);
+    });
+  }
+
+  function read<T>(key: string, endpoint: string, request$: Observable<T>, context?: HttpContext): Promise<T> {
+    return firstValueFrom(cache.read(key, endpoint, request$, context));
+  }
+
+  it('should serve fresh entries without a network call', async () => {
+    await read('products', '/products', request('v1'));
+    now += 1 * MINUTE;
+
+    expect(await read('products', '/products', request('v2'))).toBe('v1');
+    expect(calls).toBe(1);
+  });
+
+  it('should serve stale entries right away and revalidate them in the background', async () => {
+    await read('products', '/products', request('v1'));
+    now += 5 * MINUTE;
+
+    const context = new HttpContext();
+    expect(await read('products', '/products', request('v2'), context)).toBe('v1');
+    expect(context.get(REQUEST_CATEGORY)).toBe('background');
+    expect(calls).toBe(2);
+
+    expect(await read('products', '/products', request('v3'))).toBe('v2');
+  });
+
+  it('should run one revalidation per key at a time', async () => {
+    await read('products', '/products', request('v1'));
+    now += 5 * MINUTE;
+
+    const pending$ = new Subject<string>();
+    await read('products', '/products', pending$);
+    await read('products', '/products', request('v2'));
+
+    expect(calls).toBe(1);
+    pending$.next('v3');
+    pending$.complete();
+    expect(await read('products', '/products', request('v4'))).toBe('v3');
+  });
+
+  it('should go to the network once the stale window has passed', async () => {
+    await read('products', '/products', request('v1'));
+    now += 13 * MINUTE;
+
+    expect(await read('products', '/products', request('v2'))).toBe('v2');
+    expect(calls).toBe(2);
+  });
+
+  it('should drop only the entries carrying an invalidated tag', async () => {
+    await read('products', '/products', request('p1'));
+    await read('brands', '/brands', request('b1'));
+
+    cache.invalidateTags([CACHE_TAGS.PRODUCTS]);
+
+    expect(await read('products', '/products', request('p2'))).toBe('p2');
+    expect(await read('brands', '/brands', request('b2'))).toBe('b1');
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { environment } from '../../../environments/environment';
+import { CACHE_POLICIES } from '../constants/api-endpoints.const';
+import { REQUEST_CATEGORY } from '../constants/http-context.const';
+
+/**
+ * Cache policy resolved for a single endpoint
+ */
+interface CachePolicy {
+  ttl: number;                        // Fresh window (ms)
+  staleTtl: number;                   // Stale-while-revalidate window after ttl (ms)
+  tags: readonly string[];            // Invalidation tags
+}
+
+/**
+ * Cached response entry
+ */
+interface CacheEntry {
+  data: unknown;
+  storedAt: number;
+  policy: CachePolicy;
+}
+
+/**
+ * API Cache Service
+ * In-memory stale-while-revalidate cache for catalog reads (ApiService.getCollection / getItem)
+ *
+ * - Fresh entries are returned without a network call
+ * - Stale entries are returned right away and refreshed in the background
+ * - Expired entries fall through to the network
+ * - Entries are grouped by tags so mutations can invalidate them
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiCacheService {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly revalidating = new Set<string>();
+
+  /**
+   * Serve a request through the cache
+   * @param key - Unique request key (URL + serialized params)
+   * @param endpoint - API endpoint used to resolve the cache policy
+   * @param request$ - Network request to run on miss or revalidation
+   * @param context - Request context of request$ (revalidation is marked as background activity)
+   */
+  read<T>(key: string, endpoint: string, request$: Observable<T>, context?: HttpContext): Observable<T> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age <= entry.policy.ttl) {
+      return of(entry.data as T);
+    }
+
+    if (entry && age <= entry.policy.ttl + entry.policy.staleTtl) {
+      context?.set(REQUEST_CATEGORY, 'background');
+      this.revalidate(key, endpoint, request$);
+      return of(entry.data as T);
+    }
+
+    return request$.pipe(
+      tap(data => this.store(key, endpoint, data))
+    );
+  }
+
+  /**
+   * Drop every entry carrying at least one of the given tags
+   */
+  invalidateTags(tags: readonly string[]): void {
+    if (tags.length === 0) return;
+
+    this.entries.forEach((entry, key) => {
+      if (entry.policy.tags.some(tag => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Drop all cached entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Refresh a stale entry in the background (one refresh per key at a time)
+   */
+  private revalidate<T>(key: string, endpoint: string, request$: Observable<T>): void {
+    if (this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    request$.subscribe({
+      next: data => this.store(key, endpoint, data),
+      error: () => this.revalidating.delete(key), // Keep serving the stale entry
+      complete: () => this.revalidating.delete(key)
+    });
+  }
+
+  private store(key: string, endpoint: string, data: unknown): void {
+    this.entries.set(key, {
+      data,
+      storedAt: Date.now(),
+      policy: this.resolvePolicy(endpoint)
+    });
+  }
+
+  /**
+   * Resolve the policy for an endpoint from CACHE_POLICIES
+   * Falls back to environment.cacheTimeout for unlisted endpoints
+   */
+  private resolvePolicy(endpoint: string): CachePolicy {
+    const policy = CACHE_POLICIES.find(p => endpoint.startsWith(p.prefix));
+
+    return policy ?? {
+      ttl: environment.cacheTimeout,
+      staleTtl: environment.cacheTimeout,
+      tags: []
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { ApiService } from './api';
+import { environment } from '../../../environments/environment';
+import { ApiError } from '../models/api-response.model';
+import { s } from '../../shared/utils/schema.utils';
+
+describe('ApiService', () => {
+  let api: ApiService;
+  let httpTesting: HttpTestingController;
+
+  const schema = s.object({
+    data: s.array(s.object({ _id: s.string(), price: s.number() }))
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    api = TestBed.inject(ApiService);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  describe('response decoding', () => {
+    it('should pass bodies matching the schema through', () => {
+      let body: unknown;
+      api.get('/products', undefined, { schema }).subscribe(value => body = value);
+
+      httpTesting.expectOne(`${environment.apiUrl}/products`).flush({ data: [{ _id: 'p1', price: 10 }] });
+
+      expect(body).toEqual({ data: [{ _id: 'p1', price: 10 }] });
+    });
+
+    it('should fail with a contract error carrying the failing path', () => {
+      let error: ApiError | undefined;
+      api.get('/products', undefined, { schema }).subscribe({ error: value => error = value });
+
+      httpTesting.expectOne(`${environment.apiUrl}/products`).flush({ data: [{ _id: 'p1', price: '10' }] });
+
+      expect(error?.category).toBe('contract');
+      expect(error?.decodeIssue).toEqual({
+        path: 'data[0].price',
+        expected: 'number',
+        received: 'string',
+        method: 'GET',
+        endpoint: '/products'
+      });
+    });
+
+    it('should report root mismatches as (root)', () => {
+      let error: ApiError | undefined;
+      api.get('/products', undefined, { schema }).subscribe({ error: value => error = value });
+
+      httpTesting.expectOne(`${environment.apiUrl}/products`).flush('<html></html>');
+
+      expect(error?.decodeIssue?.path).toBe('(root)');
+    });
+
+    it('should skip decoding without a schema', () => {
+      let body: unknown;
+      api.get('/products').subscribe(value => body = value);
+
+      httpTesting.expectOne(`${environment.apiUrl}/products`).flush({ unexpected: true });
+
+      expect(body).toEqual({ unexpected: true });
+    });
+  });
+});
@@ -1,18 +1,34 @@
-import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpHeaders, HttpParams, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, retry, timeout } from 'rxjs/operators';
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders, HttpParams, HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, Observable, TimeoutError, defer, throwError, timer } from 'rxjs';
+import { catchError, finalize, map, retry, share, tap, timeout } from 'rxjs/operators';
 
 import { environment } from '../../../environments/environment';
 import { StorageService } from './storage';
+import { ApiCacheService } from './api-cache';
+import { HttpFixtureService } from './http-fixture';
 import { 
   CollectionResponse, 
   SingleItemResponse, 
   ApiError, 
+  ApiDecodeIssue,
   ApiRequestOptions,
-  CollectionQueryParams
+  CollectionQueryParams,
+  RetryPolicy
 } from '../models/api-response.model';
-import { HEADERS, API_CONFIG } from '../constants/api-endpoints.const';
+import { HttpFixtureBundle, HttpFixtureMode } from '../models/http-fixture.model';
+import { 
+  HEADERS, 
+  API_CONFIG, 
+  HTTP_METHODS, 
+  DEFAULT_RETRY_POLICY, 
+  NON_IDEMPOTENT_ENDPOINT_PREFIXES 
+} from '../constants/api-endpoints.const';
+import { resolveRetryDelay } from '../../shared/utils/retry.utils';
+import { categorizeHttpError } from '../../shared/utils/error.utils';
+import { REQUEST_CATEGORY, RETRY_ATTEMPT, RETRY_POLICY, SKIP_ERROR_HANDLER } from '../constants/http-context.const';
+
+type HttpMethod = typeof HTTP_METHODS[keyof typeof HTTP_METHODS];
 
 /**
  * API Service
@@ -25,40 +41,68 @@ import { HEADERS, API_CONFIG } from '../constants/api-endpoints.const';
 export class ApiService {
   private readonly http = inject(HttpClient);
   private readonly storage = inject(StorageService);
+  private readonly cache = inject(ApiCacheService);
+  private readonly fixtures = inject(HttpFixtureService);
   private readonly baseUrl = environment.apiUrl;
 
   // Request timeout constants (from shared config)
   private readonly DEFAULT_TIMEOUT = API_CONFIG.DEFAULT_TIMEOUT;
   private readonly COLLECTION_TIMEOUT = API_CONFIG.COLLECTION_TIMEOUT;
 
+  // In-flight GET requests keyed by URL + serialized params
+  private readonly inFlight = new Map<string, Observable<unknown>>();
+
+  // Dev-only contract drift report (response shape mismatches seen this session)
+  private readonly contractDrift = new Map<string, ApiDecodeIssue>();
+
+  // Debug counter: GET calls that joined an already in-flight request
+  private readonly _coalescedRequests = signal(0);
+  readonly coalescedRequests = this._coalescedRequests.asReadonly();
+
   /**
    * GET request for collections (products, categories, brands)
    * Returns paginated results with metadata
+   * Served through the stale-while-revalidate cache unless options.cache === false
    */
   getCollection<T>(endpoint: string, params?: CollectionQueryParams, options?: ApiRequestOptions): Observable<CollectionResponse<T>> {
     const httpOptions = this.buildHttpOptions(options, params);
     const url = `${this.baseUrl}${endpoint}`;
     
-    return this.http.get<CollectionResponse<T>>(url, httpOptions)
+    const key = this.buildRequestKey(url, httpOptions.params);
+    
+    const request$ = this.dedupe(key, this.http.get<CollectionResponse<T>>(url, httpOptions)
       .pipe(
         timeout(this.COLLECTION_TIMEOUT),
-        retry(1),
-        catchError(this.handleError.bind(this))
-      );
+        this.withRetry(HTTP_METHODS.GET, endpoint, options, httpOptions.context),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.GET, endpoint, options)
+      ));
+
+    return options?.cache === false
+      ? request$
+      : this.cache.read(key, endpoint, request$, httpOptions.context);
   }
 
   /**
    * GET request for single items (product details, category details)
+   * Served through the stale-while-revalidate cache unless options.cache === false
    */
   getItem<T>(endpoint: string, options?: ApiRequestOptions): Observable<SingleItemResponse<T>> {
     const httpOptions = this.buildHttpOptions(options);
     const url = `${this.baseUrl}${endpoint}`;
     
-    return this.http.get<SingleItemResponse<T>>(url, httpOptions)
+    const key = this.buildRequestKey(url, httpOptions.params);
+    
+    const request$ = this.dedupe(key, this.http.get<SingleItemResponse<T>>(url, httpOptions)
       .pipe(
-        retry(1),
-        catchError(this.handleError.bind(this))
-      );
+        this.withRetry(HTTP_METHODS.GET, endpoint, options, httpOptions.context),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.GET, endpoint, options)
+      ));
+
+    return options?.cache === false
+      ? request$
+      : this.cache.read(key, endpoint, request$, httpOptions.context);
   }
 
   /**
@@ -68,11 +112,12 @@ export class ApiService {
     const httpOptions = this.buildHttpOptions(options, params);
     const url = `${this.baseUrl}${endpoint}`;
     
-    return this.http.get<T>(url, httpOptions)
+    return this.dedupe(this.buildRequestKey(url, httpOptions.params), this.http.get<T>(url, httpOptions)
       .pipe(
-        retry(1),
-        catchError(this.handleError.bind(this))
-      );
+        this.withRetry(HTTP_METHODS.GET, endpoint, options, httpOptions.context),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.GET, endpoint, options)
+      ));
   }
 
   /**
@@ -84,7 +129,10 @@ export class ApiService {
     
     return this.http.post<T>(url, data, httpOptions)
       .pipe(
-        catchError(this.handleError.bind(this))
+        this.withRetry(HTTP_METHODS.POST, endpoint, options, httpOptions.context),
+        tap(() => this.invalidateCache(options)),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.POST, endpoint, options)
       );
   }
 
@@ -97,7 +145,10 @@ export class ApiService {
     
     return this.http.put<T>(url, data, httpOptions)
       .pipe(
-        catchError(this.handleError.bind(this))
+        this.withRetry(HTTP_METHODS.PUT, endpoint, options, httpOptions.context),
+        tap(() => this.invalidateCache(options)),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.PUT, endpoint, options)
       );
   }
 
@@ -110,7 +161,10 @@ export class ApiService {
     
     return this.http.delete<T>(url, httpOptions)
       .pipe(
-        catchError(this.handleError.bind(this))
+        this.withRetry(HTTP_METHODS.DELETE, endpoint, options, httpOptions.context),
+        tap(() => this.invalidateCache(options)),
+        catchError(this.handleError.bind(this)),
+        this.decode(HTTP_METHODS.DELETE, endpoint, options)
       );
   }
 
@@ -118,7 +172,7 @@ export class ApiService {
    * Build HTTP options with headers, params, and authentication
    * Based on real API testing: uses custom 'token' header
    */
-  private buildHttpOptions(options?: ApiRequestOptions, queryParams?: any): { headers: HttpHeaders; params?: HttpParams } {
+  private buildHttpOptions(options?: ApiRequestOptions, queryParams?: any): { headers: HttpHeaders; params?: HttpParams; context: HttpContext } {
     let headers = new HttpHeaders({
       [HEADERS.CONTENT_TYPE]: HEADERS.APPLICATION_JSON
     });
@@ -162,17 +216,189 @@ export class ApiService {
       });
     }
 
+    // Per-request opt-out of errorHandlerInterceptor, activity category for loadingInterceptor
+    const context = new HttpContext()
+      .set(SKIP_ERROR_HANDLER, options?.skipErrorHandler ?? false)
+      .set(REQUEST_CATEGORY, options?.background ? 'background' : null);
+
     return {
       headers,
-      ...(params.keys().length > 0 && { params })
+      ...(params.keys().length > 0 && { params }),
+      context
     };
   }
 
+  /**
+   * Validate the response body against options.schema
+   * Mismatches raise an ApiError carrying the failing path (decodeIssue)
+   */
+  private decode<T>(method: HttpMethod, endpoint: string, options?: ApiRequestOptions): MonoTypeOperatorFunction<T> {
+    const schema = options?.schema;
+
+    if (!schema) {
+      return source => source;
+    }
+
+    return map(body => {
+      const issue = schema.validate(body, '');
+
+      if (!issue) {
+        return body;
+      }
+
+      const decodeIssue: ApiDecodeIssue = { ...issue, path: issue.path || '(root)', method, endpoint };
+      this.reportContractDrift(decodeIssue);
+
+      const apiError: ApiError = {
+        statusMsg: 'fail',
+        message: `Unexpected response from server (${decodeIssue.path})`,
+        category: 'contract',
+        decodeIssue
+      };
+      throw apiError;
+    });
+  }
+
+  /**
+   * Dev-only console report listing every contract drift seen so far
+   */
+  private reportContractDrift(issue: ApiDecodeIssue): void {
+    if (environment.production) {
+      return;
+    }
+
+    this.contractDrift.set(`${issue.method} ${issue.endpoint} ${issue.path}`, issue);
+
+    console.group('🧩 API Contract Drift');
+    console.warn(`${issue.method} ${issue.endpoint}: expected ${issue.expected} at "${issue.path}", received ${issue.received}`);
+    console.table([...this.contractDrift.values()]);
+    console.groupEnd();
+  }
+
+  /**
+   * Build a stable request key from the URL and serialized query params
+   */
+  private buildRequestKey(url: string, params?: HttpParams): string {
+    const query = params?.toString();
+    return query ? `${url}?${query}` : url;
+  }
+
+  /**
+   * Share one observable between identical concurrent GET calls
+   * Registered on subscription and removed once the underlying request
+   * completes or errors, so later calls start a fresh request
+   */
+  private dedupe<T>(key: string, request$: Observable<T>): Observable<T> {
+    return defer(() => {
+      const pending = this.inFlight.get(key);
+
+      if (pending) {
+        this._coalescedRequests.update(count => count + 1);
+
+        if (environment.enableDebugLog) {
+          console.debug(`[ApiService] Coalesced GET ${key} (total: ${this._coalescedRequests()})`);
+        }
+
+        return pending as Observable<T>;
+      }
+
+      const shared$ = request$.pipe(
+        finalize(() => {
+          if (this.inFlight.get(key) === shared$) {
+            this.inFlight.delete(key);
+          }
+        }),
+        share()
+      );
+
+      this.inFlight.set(key, shared$);
+      return shared$;
+    });
+  }
+
+  /**
+   * Retry operator built from the resolved retry policy
+   * Uses exponential backoff with jitter and honours Retry-After on 429/503
+   */
+  private withRetry<T>(method: HttpMethod, endpoint: string, options: ApiRequestOptions | undefined, context: HttpContext): MonoTypeOperatorFunction<T> {
+    const policy = this.resolveRetryPolicy(method, endpoint, options);
+
+    // Policy and attempt (RETRY_ATTEMPT) let errorHandlerInterceptor tell retried failures from the final one
+    context.set(RETRY_POLICY, policy);
+
+    if (!policy || policy.maxAttempts <= 0) {
+      return source => source;
+    }
+
+    return source => defer(() => {
+      context.set(RETRY_ATTEMPT, 0);
+
+      return source.pipe(
+        retry({
+          count: policy.maxAttempts,
+          delay: (error, attempt) => {
+            const delay = resolveRetryDelay(error, policy, attempt);
+            return delay === null
+              ? throwError(() => error)
+              : timer(delay).pipe(tap(() => context.set(RETRY_ATTEMPT, attempt)));
+          }
+        })
+      );
+    });
+  }
+
+  /**
+   * Resolve the retry policy for a request
+   * - GET: default policy, overridable per call
+   * - PUT/DELETE: no retries unless the call opts in (both are idempotent)
+   * - POST: no retries unless the call opts in, and NEVER for cart/order endpoints
+   */
+  private resolveRetryPolicy(method: HttpMethod, endpoint: string, options?: ApiRequestOptions): RetryPolicy | null {
+    if (options?.retry === false) {
+      return null;
+    }
+
+    const isNonIdempotent = method === HTTP_METHODS.POST &&
+      NON_IDEMPOTENT_ENDPOINT_PREFIXES.some(prefix => endpoint.startsWith(prefix));
+
+    if (isNonIdempotent) {
+      if (options?.retry && !environment.production) {
+        console.warn(`Retry policy ignored for non-idempotent request: POST ${endpoint}`);
+      }
+      return null;
+    }
+
+    if (method !== HTTP_METHODS.GET && !options?.retry) {
+      return null;
+    }
+
+    return { ...DEFAULT_RETRY_POLICY, ...options?.retry };
+  }
+
+  /**
+   * Drop cached responses tagged by a successful mutation
+   */
+  private invalidateCache(options?: ApiRequestOptions): void {
+    if (options?.invalidateTags) {
+      this.cache.invalidateTags(options.invalidateTags);
+    }
+  }
+
   /**
    * Error handler based on real API error responses
    * API returns: { statusMsg: "fail", message: "error description" }
    */
-  private handleError(error: HttpErrorResponse): Observable<never> {
+  private handleError(error: HttpErrorResponse | TimeoutError): Observable<never> {
+    // Client-side timeout (timeout operator) - never reached errorHandlerInterceptor
+    if (error instanceof TimeoutError) {
+      const timeoutError: ApiError = {
+        statusMsg: 'fail',
+        message: 'Request timed out. Please try again.',
+        category: 'timeout'
+      };
+      return throwError(() => timeoutError);
+    }
+
     let errorMessage = 'An unknown error occurred';
     let statusCode = error.status;
     
@@ -195,7 +421,7 @@ export class ApiService {
       errorMessage = 'Network error. Please check your internet connection.';
     } else if (error.status === 401) {
       errorMessage = 'Authentication required. Please log in.';
-      // Could trigger logout here
+      // Session cleanup and redirect are handled by errorHandlerInterceptor
     } else if (error.status === 403) {
       errorMessage = 'Access denied. Insufficient permissions.';
     } else if (error.status >= 500) {
@@ -214,12 +440,38 @@ export class ApiService {
     // Create standardized error object
     const apiError: ApiError = {
       statusMsg: 'fail',
-      message: errorMessage
+      message: errorMessage,
+      status: statusCode,
+      category: categorizeHttpError(statusCode)
     };
 
     return throwError(() => apiError);
   }
 
+  // ===== FIXTURE RECORD / REPLAY =====
+
+  /**
+   * Switch HTTP fixture mode (off / record / replay)
+   * Replay answers from the bundle loaded via loadFixtures()
+   */
+  setFixtureMode(mode: HttpFixtureMode): void {
+    this.fixtures.setMode(mode);
+  }
+
+  /**
+   * Download recorded request/response pairs as a JSON fixture bundle
+   */
+  downloadFixtures(): void {
+    this.fixtures.download();
+  }
+
+  /**
+   * Load a fixture bundle and start replaying it
+   */
+  loadFixtures(bundle: HttpFixtureBundle): void {
+    this.fixtures.load(bundle);
+  }
+
   // Authentication methods removed - now handled by AuthService and authHeaderInterceptor
   // This keeps the API service focused on HTTP operations only
 
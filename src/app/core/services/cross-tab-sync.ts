@@ -0,0 +1,71 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, Subject, filter } from 'rxjs';
+
+import { StorageService } from './storage';
+import { CrossTabMessage, CrossTabMessageType, CrossTabSession } from '../models/cross-tab.model';
+
+/**
+ * Cross-Tab Sync Service
+ * Propagates session and cart/wishlist changes to the other open tabs
+ *
+ * - Uses BroadcastChannel; falls back to `storage` events on a dedicated key
+ *   where BroadcastChannel is not available
+ * - Publishers: AuthService (login/logout/token), CartService, WishlistService (mutations)
+ * - Receivers: AuthService re-reads the session, CartStore/WishlistStore reload
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CrossTabSyncService {
+  private readonly storage = inject(StorageService);
+
+  private readonly CHANNEL_NAME = 'freshcart-sync';
+  private readonly FALLBACK_STORAGE_KEY = 'freshcart_sync';
+
+  private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private readonly channel = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(this.CHANNEL_NAME)
+    : null;
+  private readonly messages$ = new Subject<CrossTabMessage>();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<CrossTabMessage>) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', event => {
+        if (event.key === this.FALLBACK_STORAGE_KEY && event.newValue) {
+          this.receive(JSON.parse(event.newValue));
+        }
+      });
+    }
+  }
+
+  /**
+   * Tell the other tabs that something changed
+   * @param session - Session copy for sessionStorage-only sessions
+   */
+  publish(type: CrossTabMessageType, session?: CrossTabSession): void {
+    const message: CrossTabMessage = { type, tabId: this.tabId, sentAt: Date.now(), ...(session && { session }) };
+
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (!session) {
+      // The fallback goes through localStorage - a session the user chose not to keep must not end up there
+      this.storage.setItem(this.FALLBACK_STORAGE_KEY, message);
+    }
+  }
+
+  /**
+   * Messages of the given types sent by other tabs
+   */
+  on(...types: CrossTabMessageType[]): Observable<CrossTabMessage> {
+    return this.messages$.pipe(
+      filter(message => types.includes(message.type))
+    );
+  }
+
+  private receive(message: CrossTabMessage | null): void {
+    if (!message || message.tabId === this.tabId) return;
+    this.messages$.next(message);
+  }
+}
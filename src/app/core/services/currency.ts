@@ -0,0 +1,91 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { StorageService } from './storage';
+import { I18nService } from './i18n';
+import { formatPrice } from '../../shared/utils/cart.utils';
+import {
+  BASE_CURRENCY,
+  CURRENCY_OPTIONS,
+  CURRENCY_STORAGE_KEY,
+  EXCHANGE_RATES
+} from '../constants/currency.constants';
+
+/**
+ * Currency Types
+ */
+export type CurrencyCode = keyof typeof EXCHANGE_RATES.rates;
+
+/**
+ * Currency Service
+ * Display currency for every price in the app
+ *
+ * - API prices are EGP; other currencies are converted with the local EXCHANGE_RATES table
+ * - The selected currency is persisted in localStorage
+ * - Conversion is display-only: checkout and orders are always charged in EGP
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyService {
+  private readonly storage = inject(StorageService);
+  private readonly i18nService = inject(I18nService);
+
+  // Selected display currency
+  readonly displayCurrency = signal<CurrencyCode>(this.loadCurrency());
+
+  // Exchange rate from 1 EGP to the display currency
+  readonly rate = computed(() => EXCHANGE_RATES.rates[this.displayCurrency()]);
+
+  // Prices are shown in a currency other than the one charged
+  readonly isConverted = computed(() => this.displayCurrency() !== BASE_CURRENCY);
+
+  readonly baseCurrency = BASE_CURRENCY;
+  readonly ratesUpdatedAt = EXCHANGE_RATES.updatedAt;
+
+  // Rates date formatted for the current language (en/ar)
+  readonly ratesUpdatedLabel = computed(() =>
+    new Intl.DateTimeFormat(
+      this.i18nService.currentLanguage() === 'ar' ? 'ar-EG' : 'en-EG',
+      { dateStyle: 'medium' }
+    ).format(new Date(EXCHANGE_RATES.updatedAt))
+  );
+  readonly options = CURRENCY_OPTIONS;
+
+  /**
+   * Select the display currency and persist the choice
+   */
+  setCurrency(currency: CurrencyCode): void {
+    this.displayCurrency.set(currency);
+    this.storage.setItem(CURRENCY_STORAGE_KEY, currency);
+  }
+
+  /**
+   * Convert an EGP amount to the display currency
+   */
+  convert(price: number): number {
+    return price * this.rate();
+  }
+
+  /**
+   * Format an EGP price in the display currency
+   * @param maximumFractionDigits - Fraction digits when showing EGP (converted amounts always show 2)
+   */
+  format(price: number, maximumFractionDigits = 0): string {
+    return formatPrice(price, this.displayCurrency(), this.rate(), maximumFractionDigits);
+  }
+
+  /**
+   * Format an EGP price in EGP regardless of the display currency (amounts charged)
+   */
+  formatBase(price: number, maximumFractionDigits = 0): string {
+    return formatPrice(price, BASE_CURRENCY, 1, maximumFractionDigits);
+  }
+
+  private loadCurrency(): CurrencyCode {
+    const saved = this.storage.getItem<string>(CURRENCY_STORAGE_KEY);
+    return saved && this.isSupported(saved) ? saved : BASE_CURRENCY;
+  }
+
+  private isSupported(currency: string): currency is CurrencyCode {
+    return currency in EXCHANGE_RATES.rates;
+  }
+}
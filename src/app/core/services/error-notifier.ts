@@ -0,0 +1,53 @@
+import { Injectable, inject } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { TranslateService } from '@ngx-translate/core';
+
+import { ApiErrorCategory } from '../models/api-response.model';
+
+/**
+ * Error Notifier Service
+ * Raises the global error toasts for errorHandlerInterceptor
+ *
+ * Toasts are deduplicated per category: while one is on screen, further
+ * failures of the same kind (e.g. five requests failing while offline) are dropped
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ErrorNotifierService {
+  private readonly messageService = inject(MessageService);
+  private readonly translateService = inject(TranslateService);
+
+  private readonly TOAST_LIFE = 5000;
+
+  // Translation key per category (title uses the same key + '_TITLE')
+  private readonly MESSAGE_KEYS: Partial<Record<ApiErrorCategory, string>> = {
+    network: 'ERRORS.NETWORK',
+    timeout: 'ERRORS.TIMEOUT',
+    server: 'ERRORS.SERVER',
+    auth: 'ERRORS.SESSION_EXPIRED'
+  };
+
+  private readonly lastShownAt = new Map<ApiErrorCategory, number>();
+
+  /**
+   * Show the toast for an error category (no-op for categories without a global message)
+   */
+  notify(category: ApiErrorCategory): void {
+    const key = this.MESSAGE_KEYS[category];
+    if (!key) return;
+
+    const now = Date.now();
+    if (now - (this.lastShownAt.get(category) ?? 0) < this.TOAST_LIFE) {
+      return;
+    }
+    this.lastShownAt.set(category, now);
+
+    this.messageService.add({
+      severity: category === 'auth' ? 'warn' : 'error',
+      summary: this.translateService.instant(`${key}_TITLE`),
+      detail: this.translateService.instant(key),
+      life: this.TOAST_LIFE
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpErrorResponse, HttpHeaders, HttpRequest, HttpResponse, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { FakeBackendService } from './fake-backend';
+import { environment } from '../../../environments/environment';
+import { HEADERS } from '../constants/api-endpoints.const';
+import { decodeJwt } from '../../shared/utils/jwt.utils';
+
+const SEED = {
+  users: [
+    {
+      _id: '6407cf000000000000000001', name: 'Demo User', email: 'demo@freshcart.test', phone: '01012345678',
+      password: 'Demo@1234', role: 'user', createdAt: '2025-09-01T10:00:00.000Z', updatedAt: '2025-09-01T10:00:00.000Z'
+    },
+    {
+      _id: '6407cf000000000000000002', name: 'Admin User', email: 'admin@freshcart.test', phone: '01098765432',
+      password: 'Admin@1234', role: 'admin', createdAt: '2025-09-01T10:00:00.000Z', updatedAt: '2025-09-01T10:00:00.000Z'
+    }
+  ],
+  categories: [],
+  subcategories: [],
+  brands: [],
+  products: []
+};
+
+describe('FakeBackendService', () => {
+  let service: FakeBackendService;
+  let httpTesting: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(FakeBackendService);
+    httpTesting = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  /**
+   * Run a request through the fake backend (seed flushed, latency ticked)
+   */
+  function send(method: string, path: string, body: unknown = null, token?: string): HttpResponse<any> | HttpErrorResponse {
+    let result: HttpResponse<any> | HttpErrorResponse | undefined;
+    const headers = token ? new HttpHeaders({ [HEADERS.TOKEN]: token }) : new HttpHeaders();
+
+    service.handle(new HttpRequest(method, `${environment.apiUrl}${path}`, body, { headers })).subscribe({
+      next: event => result = event as HttpResponse<any>,
+      error: error => result = error
+    });
+    httpTesting.match('fake-api/catalog.json').forEach(req => req.flush(SEED));
+    tick(1000);
+
+    return result!;
+  }
+
+  function signin(email: string, password: string): string {
+    return (send('POST', '/auth/signin', { email, password }) as HttpResponse<any>).body.token;
+  }
+
+  it('should sign up a user with a non-Latin name and issue a decodable token', fakeAsync(() => {
+    const response = send('POST', '/auth/signup', {
+      name: 'أحمد علي',
+      email: 'ahmed@freshcart.test',
+      password: 'Secret@123',
+      rePassword: 'Secret@123',
+      phone: '01011111111'
+    });
+
+    expect(response.status).toBe(201);
+    const token = (response as HttpResponse<any>).body.token;
+    expect(decodeJwt(token)?.name).toBe('أحمد علي');
+  }));
+
+  it('should reject requests without a token on protected routes', fakeAsync(() => {
+    const response = send('GET', '/cart');
+
+    expect(response.status).toBe(401);
+  }));
+
+  it('should restrict all users and all orders to admins', fakeAsync(() => {
+    const userToken = signin('demo@freshcart.test', 'Demo@1234');
+    const adminToken = signin('admin@freshcart.test', 'Admin@1234');
+
+    expect(send('GET', '/users', null, userToken).status).toBe(403);
+    expect(send('GET', '/orders', null, userToken).status).toBe(403);
+    expect(send('GET', '/users', null, adminToken).status).toBe(200);
+    expect(send('GET', '/orders', null, adminToken).status).toBe(200);
+  }));
+});
@@ -0,0 +1,803 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  HttpBackend,
+  HttpClient,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpRequest,
+  HttpResponse
+} from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { delay, map, shareReplay, switchMap } from 'rxjs/operators';
+
+import { environment } from '../../../environments/environment';
+import { HEADERS } from '../constants/api-endpoints.const';
+import { encodeUnsignedJwt, getUserIdFromToken } from '../../shared/utils/jwt.utils';
+import { mapProductToCartProductObject } from '../../shared/utils/cart.utils';
+import { Product } from '../../features/products/models/product.model';
+import { Category, SubCategory } from '../../features/categories/models/category.model';
+import { Brand } from '../../features/brands/models/brand.model';
+import { Address } from '../../features/profile/models/address.model';
+import { Order } from '../../features/profile/models/order.model';
+
+/**
+ * Fake user record (password kept in plain text - offline development only)
+ */
+interface FakeUser {
+  _id: string;
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+  role: 'user' | 'admin';
+  resetCode?: string;
+  resetVerified?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Seed catalog loaded from public/fake-api/catalog.json
+ */
+interface FakeSeed {
+  users: FakeUser[];
+  categories: Category[];
+  subcategories: SubCategory[];
+  brands: Brand[];
+  products: Product[];
+}
+
+/**
+ * Server-side cart line (product stored by ID, populated on read)
+ */
+interface FakeCart {
+  _id: string;
+  cartOwner: string;
+  products: Array<{ _id: string; product: string; count: number; price: number }>;
+  createdAt: string;
+  updatedAt: string;
+  totalPriceAfterDiscount?: number;   // Set by applyCoupon, dropped by any cart write
+}
+
+/**
+ * Request context passed to route handlers
+ */
+interface FakeContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  user: FakeUser | null;
+}
+
+/**
+ * Handler result - either a response body or an error
+ */
+type FakeResult = { status: number; body: unknown };
+
+interface FakeRoute {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  admin?: boolean;                    // Admin role required (403 for other users)
+  handle: (ctx: FakeContext) => FakeResult;
+}
+
+/**
+ * Fake Backend Service
+ * Stateful in-memory implementation of the Route e-commerce API for offline development and specs
+ *
+ * - Catalog (products, categories, subcategories, brands) and seed users come from public/fake-api/catalog.json
+ * - Users, carts, wishlists, addresses and orders live in memory (reset on page reload)
+ * - Tokens are unsigned JWTs readable by decodeJwt()
+ * - Response shapes mirror the real API (see models), including its quirks
+ *
+ * Enabled via environment.useFakeBackend (see fakeBackendInterceptor)
+ * Seed accounts: demo@freshcart.test / Demo@1234, admin@freshcart.test / Admin@1234
+ * Coupons: FRESH10 (10% off), WELCOME20 (20% off)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FakeBackendService {
+  // Bypass interceptors when loading the seed file
+  private readonly http = new HttpClient(inject(HttpBackend));
+
+  private readonly SEED_URL = 'fake-api/catalog.json';
+  private readonly LATENCY_MS = 300;
+  private readonly TOKEN_TTL_SECONDS = 90 * 24 * 60 * 60; // Real API tokens last ~90 days
+  private readonly DEFAULT_LIMIT = 40;
+  private readonly COUPONS: Record<string, number> = { FRESH10: 10, WELCOME20: 20 }; // Discount %
+
+  private users: FakeUser[] = [];
+  private categories: Category[] = [];
+  private subcategories: SubCategory[] = [];
+  private brands: Brand[] = [];
+  private products: Product[] = [];
+  private readonly carts = new Map<string, FakeCart>();
+  private readonly wishlists = new Map<string, string[]>();
+  private readonly addresses = new Map<string, Address[]>();
+  private readonly orders: Order[] = [];
+  private orderSequence = 1;
+
+  private readonly seed$ = this.http.get<FakeSeed>(this.SEED_URL).pipe(
+    map(seed => {
+      this.users = seed.users.map(user => ({ ...user }));
+      this.categories = seed.categories;
+      this.subcategories = seed.subcategories;
+      this.brands = seed.brands;
+      this.products = seed.products.map(product => ({ ...product }));
+      return true;
+    }),
+    shareReplay(1)
+  );
+
+  private readonly routes: FakeRoute[] = [
+    // Auth
+    { method: 'POST', pattern: /^\/auth\/signup$/, auth: false, handle: ctx => this.signup(ctx) },
+    { method: 'POST', pattern: /^\/auth\/signin$/, auth: false, handle: ctx => this.signin(ctx) },
+    { method: 'POST', pattern: /^\/auth\/forgotPasswords$/, auth: false, handle: ctx => this.forgotPassword(ctx) },
+    { method: 'POST', pattern: /^\/auth\/verifyResetCode$/, auth: false, handle: ctx => this.verifyResetCode(ctx) },
+    { method: 'PUT', pattern: /^\/auth\/resetPassword$/, auth: false, handle: ctx => this.resetPassword(ctx) },
+    { method: 'GET', pattern: /^\/auth\/verifyToken$/, auth: true, handle: ctx => this.verifyToken(ctx) },
+
+    // Users
+    { method: 'PUT', pattern: /^\/users\/changeMyPassword$/, auth: true, handle: ctx => this.changePassword(ctx) },
+    { method: 'PUT', pattern: /^\/users\/updateMe$/, auth: true, handle: ctx => this.updateMe(ctx) },
+    { method: 'GET', pattern: /^\/users$/, auth: true, admin: true, handle: ctx => this.getAllUsers(ctx) },
+
+    // Catalog
+    { method: 'GET', pattern: /^\/products$/, auth: false, handle: ctx => this.paginate(this.filterProducts(ctx.query), ctx.query) },
+    { method: 'GET', pattern: /^\/products\/([^/]+)$/, auth: false, handle: ctx => this.findById(this.products, ctx.params[0]) },
+    { method: 'GET', pattern: /^\/categories$/, auth: false, handle: ctx => this.paginate(this.searchByName(this.categories, ctx.query), ctx.query) },
+    { method: 'GET', pattern: /^\/categories\/([^/]+)\/subcategories$/, auth: false, handle: ctx => this.paginate(this.subcategories.filter(sub => sub.category === ctx.params[0]), ctx.query) },
+    { method: 'GET', pattern: /^\/categories\/([^/]+)$/, auth: false, handle: ctx => this.findById(this.categories, ctx.params[0]) },
+    { method: 'GET', pattern: /^\/subcategories$/, auth: false, handle: ctx => this.paginate(this.filterSubcategories(ctx.query), ctx.query) },
+    { method: 'GET', pattern: /^\/subcategories\/([^/]+)$/, auth: false, handle: ctx => this.findById(this.subcategories, ctx.params[0]) },
+    { method: 'GET', pattern: /^\/brands$/, auth: false, handle: ctx => this.paginate(this.searchByName(this.brands, ctx.query), ctx.query) },
+    { method: 'GET', pattern: /^\/brands\/([^/]+)$/, auth: false, handle: ctx => this.findById(this.brands, ctx.params[0]) },
+
+    // Cart
+    { method: 'GET', pattern: /^\/cart$/, auth: true, handle: ctx => this.getCart(ctx.user!) },
+    { method: 'POST', pattern: /^\/cart$/, auth: true, handle: ctx => this.addToCart(ctx) },
+    { method: 'PUT', pattern: /^\/cart\/applyCoupon$/, auth: true, handle: ctx => this.applyCoupon(ctx) },
+    { method: 'PUT', pattern: /^\/cart\/([^/]+)$/, auth: true, handle: ctx => this.updateCartItem(ctx) },
+    { method: 'DELETE', pattern: /^\/cart\/([^/]+)$/, auth: true, handle: ctx => this.removeCartItem(ctx) },
+    { method: 'DELETE', pattern: /^\/cart$/, auth: true, handle: ctx => this.clearCart(ctx.user!) },
+
+    // Wishlist
+    { method: 'GET', pattern: /^\/wishlist$/, auth: true, handle: ctx => this.getWishlist(ctx.user!) },
+    { method: 'POST', pattern: /^\/wishlist$/, auth: true, handle: ctx => this.addToWishlist(ctx) },
+    { method: 'DELETE', pattern: /^\/wishlist\/([^/]+)$/, auth: true, handle: ctx => this.removeFromWishlist(ctx) },
+
+    // Addresses
+    { method: 'GET', pattern: /^\/addresses$/, auth: true, handle: ctx => this.getAddresses(ctx.user!) },
+    { method: 'POST', pattern: /^\/addresses$/, auth: true, handle: ctx => this.addAddress(ctx) },
+    { method: 'GET', pattern: /^\/addresses\/([^/]+)$/, auth: true, handle: ctx => this.getAddress(ctx) },
+    { method: 'DELETE', pattern: /^\/addresses\/([^/]+)$/, auth: true, handle: ctx => this.removeAddress(ctx) },
+
+    // Orders
+    { method: 'POST', pattern: /^\/orders\/checkout-session\/([^/]+)$/, auth: true, handle: ctx => this.createStripeSession(ctx) },
+    { method: 'POST', pattern: /^\/orders\/([^/]+)$/, auth: true, handle: ctx => this.createCashOrder(ctx) },
+    { method: 'GET', pattern: /^\/orders\/user\/([^/]+)$/, auth: true, handle: ctx => this.getUserOrders(ctx) },
+    { method: 'GET', pattern: /^\/orders$/, auth: true, admin: true, handle: ctx => this.paginate(this.filterOrders(ctx.query), ctx.query) }
+  ];
+
+  /**
+   * Handle an API request against the in-memory state
+   */
+  handle(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    return this.seed$.pipe(
+      switchMap(() => {
+        const url = new URL(req.urlWithParams, window.location.origin);
+        const apiPath = new URL(environment.apiUrl).pathname;
+        const path = url.pathname.replace(apiPath, '') || '/';
+        const result = this.dispatch(req, path, url.searchParams);
+
+        if (!environment.production) {
+          console.debug(`[FakeBackend] ${req.method} ${path} → ${result.status}`);
+        }
+
+        if (result.status >= 400) {
+          return throwError(() => new HttpErrorResponse({
+            status: result.status,
+            error: result.body,
+            url: req.urlWithParams
+          }));
+        }
+
+        return of(new HttpResponse({ status: result.status, body: result.body, url: req.urlWithParams }));
+      }),
+      delay(this.LATENCY_MS)
+    );
+  }
+
+  /**
+   * Match the request against the route table and run its handler
+   */
+  private dispatch(req: HttpRequest<unknown>, path: string, query: URLSearchParams): FakeResult {
+    for (const route of this.routes) {
+      const match = req.method === route.method ? route.pattern.exec(path) : null;
+      if (!match) continue;
+
+      const user = this.resolveUser(req);
+      if (route.auth && !user) {
+        return this.fail(401, 'You are not logged in. Please login to get access');
+      }
+      if (route.admin && user?.role !== 'admin') {
+        return this.fail(403, 'You are not allowed to access this route');
+      }
+
+      try {
+        return route.handle({
+          params: match.slice(1).map(decodeURIComponent),
+          query,
+          body: req.body ?? {},
+          user
+        });
+      } catch (error) {
+        console.error('[FakeBackend] Handler error:', error);
+        return this.fail(500, 'Internal fake backend error');
+      }
+    }
+
+    return this.fail(404, `Can't find this route: ${path}`);
+  }
+
+  // ===== AUTH =====
+
+  private signup(ctx: FakeContext): FakeResult {
+    const { name, email, password, rePassword, phone } = ctx.body;
+
+    if (!name || !email || !password || !phone) {
+      return this.fail(400, 'fail', [{ msg: 'name, email, password and phone are required' }]);
+    }
+    if (password !== rePassword) {
+      return this.fail(400, 'fail', [{ msg: 'Password confirmation is incorrect', param: 'rePassword' }]);
+    }
+    if (this.findUserByEmail(email)) {
+      return this.fail(409, 'Account Already Exists');
+    }
+
+    const now = new Date().toISOString();
+    const user: FakeUser = {
+      _id: this.generateId(),
+      name,
+      email: email.toLowerCase(),
+      phone,
+      password,
+      role: 'user',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.push(user);
+
+    return this.ok(this.authResponse(user), 201);
+  }
+
+  private signin(ctx: FakeContext): FakeResult {
+    const user = this.findUserByEmail(ctx.body.email);
+
+    if (!user || user.password !== ctx.body.password) {
+      return this.fail(401, 'Incorrect email or password');
+    }
+
+    return this.ok(this.authResponse(user));
+  }
+
+  private forgotPassword(ctx: FakeContext): FakeResult {
+    const user = this.findUserByEmail(ctx.body.email);
+
+    if (!user) {
+      return this.fail(404, `There is no user registered with this email address ${ctx.body.email}`);
+    }
+
+    user.resetCode = Math.floor(100000 + Math.random() * 900000).toString();
+    user.resetVerified = false;
+    console.info(`[FakeBackend] Reset code for ${user.email}: ${user.resetCode}`);
+
+    return this.ok({ statusMsg: 'success', message: 'Reset code sent to your email' });
+  }
+
+  private verifyResetCode(ctx: FakeContext): FakeResult {
+    const user = this.users.find(u => !!u.resetCode && u.resetCode === String(ctx.body.resetCode));
+
+    if (!user) {
+      return this.fail(400, 'Reset code is invalid or has expired');
+    }
+
+    user.resetVerified = true;
+    return this.ok({ status: 'Success' });
+  }
+
+  private resetPassword(ctx: FakeContext): FakeResult {
+    const user = this.findUserByEmail(ctx.body.email);
+
+    if (!user) {
+      return this.fail(404, `There is no user with email ${ctx.body.email}`);
+    }
+    if (!user.resetVerified) {
+      return this.fail(400, 'reset code not verified');
+    }
+
+    user.password = ctx.body.newPassword;
+    user.resetCode = undefined;
+    user.resetVerified = false;
+    user.updatedAt = new Date().toISOString();
+
+    return this.ok(this.authResponse(user));
+  }
+
+  private verifyToken(ctx: FakeContext): FakeResult {
+    const user = ctx.user!;
+    const iat = Math.floor(Date.now() / 1000);
+
+    return this.ok({
+      message: 'verified',
+      decoded: { id: user._id, name: user.name, role: user.role, iat, exp: iat + this.TOKEN_TTL_SECONDS }
+    });
+  }
+
+  // ===== USERS =====
+
+  private changePassword(ctx: FakeContext): FakeResult {
+    const user = ctx.user!;
+    const { currentPassword, password, rePassword } = ctx.body;
+
+    if (user.password !== currentPassword) {
+      return this.fail(400, 'fail', [{ msg: 'Incorrect current password', param: 'currentPassword' }]);
+    }
+    if (password !== rePassword) {
+      return this.fail(400, 'fail', [{ msg: 'Password confirmation is incorrect', param: 'rePassword' }]);
+    }
+
+    user.password = password;
+    user.updatedAt = new Date().toISOString();
+
+    return this.ok({ message: 'success', token: this.generateToken(user) });
+  }
+
+  private updateMe(ctx: FakeContext): FakeResult {
+    const user = ctx.user!;
+    const { name, email, phone } = ctx.body;
+
+    if (email && email.toLowerCase() !== user.email && this.findUserByEmail(email)) {
+      return this.fail(409, 'E-mail already in use');
+    }
+
+    user.name = name ?? user.name;
+    user.email = email ? email.toLowerCase() : user.email;
+    user.phone = phone ?? user.phone;
+    user.updatedAt = new Date().toISOString();
+
+    return this.ok({ message: 'success', user: { name: user.name, email: user.email, role: user.role } });
+  }
+
+  private getAllUsers(ctx: FakeContext): FakeResult {
+    const page = this.paginate(
+      this.sortBy(this.users.map(({ password, resetCode, resetVerified, ...user }) => user), ctx.query.get('sort')),
+      ctx.query
+    );
+    const { data, ...rest } = page.body as { data: unknown[] };
+
+    // Real API returns users under "users" instead of "data"
+    return this.ok({ ...rest, users: data });
+  }
+
+  // ===== CATALOG =====
+
+  /**
+   * Products filtering: keyword, category[in], brand, price[gte], price[lte], sort
+   */
+  private filterProducts(query: URLSearchParams): Product[] {
+    const keyword = query.get('keyword')?.toLowerCase();
+    const categoryIds = query.getAll('category[in]');
+    const brand = query.get('brand');
+    const minPrice = query.get('price[gte]');
+    const maxPrice = query.get('price[lte]');
+
+    const filtered = this.products.filter(product =>
+      (!keyword || product.title.toLowerCase().includes(keyword) || product.description.toLowerCase().includes(keyword)) &&
+      (categoryIds.length === 0 || categoryIds.includes(product.category._id)) &&
+      (!brand || product.brand._id === brand) &&
+      (minPrice === null || product.price >= Number(minPrice)) &&
+      (maxPrice === null || product.price <= Number(maxPrice))
+    );
+
+    return this.sortBy(filtered, query.get('sort'));
+  }
+
+  private filterSubcategories(query: URLSearchParams): SubCategory[] {
+    const category = query.get('category');
+    return category ? this.subcategories.filter(sub => sub.category === category) : this.subcategories;
+  }
+
+  private searchByName<T extends { name: string }>(items: T[], query: URLSearchParams): T[] {
+    const keyword = query.get('keyword')?.toLowerCase();
+    const filtered = keyword ? items.filter(item => item.name.toLowerCase().includes(keyword)) : items;
+    return this.sortBy(filtered, query.get('sort'));
+  }
+
+  /**
+   * Sort by comma-separated fields, "-" prefix for descending (e.g. "-price,title")
+   */
+  private sortBy<T>(items: T[], sort: string | null): T[] {
+    if (!sort) return items;
+
+    const fields = sort.split(',').map(field => field.trim()).filter(Boolean);
+    return [...items].sort((a, b) => {
+      for (const field of fields) {
+        const descending = field.startsWith('-');
+        const key = descending ? field.slice(1) : field;
+        const left = (a as Record<string, any>)[key];
+        const right = (b as Record<string, any>)[key];
+        if (left === right) continue;
+        const order = left > right ? 1 : -1;
+        return descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Build a CollectionResponse page ({ results, metadata, data })
+   */
+  private paginate<T>(items: T[], query: URLSearchParams): FakeResult {
+    const limit = Math.max(1, Number(query.get('limit')) || this.DEFAULT_LIMIT);
+    const currentPage = Math.max(1, Number(query.get('page')) || 1);
+    const numberOfPages = Math.max(1, Math.ceil(items.length / limit));
+    const data = items.slice((currentPage - 1) * limit, currentPage * limit);
+
+    return this.ok({
+      results: items.length,
+      metadata: {
+        currentPage,
+        numberOfPages,
+        limit,
+        ...(currentPage < numberOfPages && { nextPage: currentPage + 1 }),
+        ...(currentPage > 1 && { prevPage: currentPage - 1 })
+      },
+      data
+    });
+  }
+
+  private findById<T extends { _id: string }>(items: T[], id: string): FakeResult {
+    const item = items.find(entry => entry._id === id);
+    return item ? this.ok({ data: item }) : this.fail(404, `No document for this id ${id}`);
+  }
+
+  // ===== CART =====
+
+  private getCart(user: FakeUser): FakeResult {
+    const cart = this.carts.get(user._id);
+    return cart ? this.ok(this.populateCart(cart)) : this.fail(404, `No cart exist for this user: ${user._id}`);
+  }
+
+  /**
+   * POST /cart - always adds quantity 1, returns product as STRING ID (API quirk)
+   */
+  private addToCart(ctx: FakeContext): FakeResult {
+    const product = this.products.find(p => p._id === ctx.body.productId);
+    if (!product) {
+      return this.fail(404, `No product for this id ${ctx.body.productId}`);
+    }
+
+    const now = new Date().toISOString();
+    const cart = this.carts.get(ctx.user!._id) ?? {
+      _id: this.generateId(),
+      cartOwner: ctx.user!._id,
+      products: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const line = cart.products.find(item => item.product === product._id);
+    if (line) {
+      line.count += 1;
+    } else {
+      cart.products.push({
+        _id: this.generateId(),
+        product: product._id,
+        count: 1,
+        price: product.priceAfterDiscount ?? product.price
+      });
+    }
+
+    cart.updatedAt = now;
+    delete cart.totalPriceAfterDiscount;
+    this.carts.set(ctx.user!._id, cart);
+
+    return this.ok({
+      status: 'success',
+      message: 'Product added successfully to your cart',
+      numOfCartItems: cart.products.length,
+      cartId: cart._id,
+      data: { ...cart, __v: 0, totalCartPrice: this.cartTotal(cart) }
+    });
+  }
+
+  private updateCartItem(ctx: FakeContext): FakeResult {
+    const cart = this.carts.get(ctx.user!._id);
+    const line = cart?.products.find(item => item.product === ctx.params[0]);
+
+    if (!cart || !line) {
+      return this.fail(404, `there is no item for this id : ${ctx.params[0]}`);
+    }
+
+    line.count = Number(ctx.body.count);
+    cart.updatedAt = new Date().toISOString();
+    delete cart.totalPriceAfterDiscount;
+
+    return this.ok(this.populateCart(cart));
+  }
+
+  private removeCartItem(ctx: FakeContext): FakeResult {
+    const cart = this.carts.get(ctx.user!._id);
+    if (!cart) {
+      return this.fail(404, `No cart exist for this user: ${ctx.user!._id}`);
+    }
+
+    cart.products = cart.products.filter(item => item.product !== ctx.params[0]);
+    cart.updatedAt = new Date().toISOString();
+    delete cart.totalPriceAfterDiscount;
+
+    return this.ok(this.populateCart(cart));
+  }
+
+  /**
+   * PUT /cart/applyCoupon - percentage coupons from COUPONS
+   */
+  private applyCoupon(ctx: FakeContext): FakeResult {
+    const cart = this.carts.get(ctx.user!._id);
+    const discount = this.COUPONS[String(ctx.body.couponName ?? '')];
+
+    if (discount === undefined) {
+      return this.fail(400, 'Coupon is Invalid or expired');
+    }
+    if (!cart) {
+      return this.fail(404, `No cart exist for this user: ${ctx.user!._id}`);
+    }
+
+    const total = this.cartTotal(cart);
+    cart.totalPriceAfterDiscount = Number((total - (total * discount) / 100).toFixed(2));
+    cart.updatedAt = new Date().toISOString();
+
+    return this.ok(this.populateCart(cart));
+  }
+
+  private clearCart(user: FakeUser): FakeResult {
+    this.carts.delete(user._id);
+    return this.ok({ message: 'success' });
+  }
+
+  /**
+   * GET/PUT/DELETE cart shape with populated CartProductObject
+   */
+  private populateCart(cart: FakeCart): unknown {
+    return {
+      status: 'success',
+      numOfCartItems: cart.products.length,
+      cartId: cart._id,
+      data: {
+        ...cart,
+        products: cart.products.map(item => ({
+          ...item,
+          product: mapProductToCartProductObject(this.products.find(p => p._id === item.product)!)
+        })),
+        __v: 0,
+        totalCartPrice: this.cartTotal(cart)
+      }
+    };
+  }
+
+  private cartTotal(cart: FakeCart): number {
+    return cart.products.reduce((sum, item) => sum + item.price * item.count, 0);
+  }
+
+  // ===== WISHLIST =====
+
+  private getWishlist(user: FakeUser): FakeResult {
+    const ids = this.wishlists.get(user._id) ?? [];
+    const data = this.products.filter(product => ids.includes(product._id));
+    return this.ok({ status: 'success', count: data.length, data });
+  }
+
+  /**
+   * POST /wishlist - returns product IDs only (API quirk)
+   */
+  private addToWishlist(ctx: FakeContext): FakeResult {
+    if (!this.products.some(p => p._id === ctx.body.productId)) {
+      return this.fail(404, `No product for this id ${ctx.body.productId}`);
+    }
+
+    const ids = this.wishlists.get(ctx.user!._id) ?? [];
+    const updated = ids.includes(ctx.body.productId) ? ids : [...ids, ctx.body.productId];
+    this.wishlists.set(ctx.user!._id, updated);
+
+    return this.ok({ status: 'success', message: 'Product added successfully to your wishlist', data: updated });
+  }
+
+  private removeFromWishlist(ctx: FakeContext): FakeResult {
+    const updated = (this.wishlists.get(ctx.user!._id) ?? []).filter(id => id !== ctx.params[0]);
+    this.wishlists.set(ctx.user!._id, updated);
+
+    return this.ok({ status: 'success', message: 'Product removed successfully to your wishlist', data: updated });
+  }
+
+  // ===== ADDRESSES =====
+
+  private getAddresses(user: FakeUser): FakeResult {
+    const data = this.addresses.get(user._id) ?? [];
+    return this.ok({ status: 'success', results: data.length, data });
+  }
+
+  private addAddress(ctx: FakeContext): FakeResult {
+    const { name, details, phone, city } = ctx.body;
+    if (!name || !details || !phone || !city) {
+      return this.fail(400, 'fail', [{ msg: 'name, details, phone and city are required' }]);
+    }
+
+    const now = new Date().toISOString();
+    const address: Address = { _id: this.generateId(), name, details, phone, city, createdAt: now, updatedAt: now };
+    this.addresses.set(ctx.user!._id, [...(this.addresses.get(ctx.user!._id) ?? []), address]);
+
+    return this.ok({ status: 'success', message: 'Address added successfully', data: [address] });
+  }
+
+  private getAddress(ctx: FakeContext): FakeResult {
+    const address = (this.addresses.get(ctx.user!._id) ?? []).find(a => a._id === ctx.params[0]);
+    return address ? this.ok({ status: 'success', data: address }) : this.fail(404, `No address for this id ${ctx.params[0]}`);
+  }
+
+  private removeAddress(ctx: FakeContext): FakeResult {
+    const remaining = (this.addresses.get(ctx.user!._id) ?? []).filter(a => a._id !== ctx.params[0]);
+    this.addresses.set(ctx.user!._id, remaining);
+
+    return this.ok({ status: 'success', message: 'Address removed successfully', data: [] });
+  }
+
+  // ===== ORDERS =====
+
+  private createCashOrder(ctx: FakeContext): FakeResult {
+    const result = this.placeOrder(ctx, 'cash');
+    if ('status' in result) return result;
+
+    return this.ok({ status: 'success', data: { ...result, user: ctx.user!._id } }, 201);
+  }
+
+  /**
+   * Stripe is not reachable offline - the order is marked paid immediately
+   * and the session URL points straight back to the return URL
+   */
+  private createStripeSession(ctx: FakeContext): FakeResult {
+    const result = this.placeOrder(ctx, 'card');
+    if ('status' in result) return result;
+
+    const returnUrl = ctx.query.get('url') ?? `${window.location.origin}/allorders`;
+    return this.ok({ status: 'success', session: { url: returnUrl } });
+  }
+
+  /**
+   * Convert the user's cart into an order (product snapshot), update stock/sold counts and drop the cart
+   */
+  private placeOrder(ctx: FakeContext, paymentMethodType: 'cash' | 'card'): Order | FakeResult {
+    const user = ctx.user!;
+    const cart = this.carts.get(user._id);
+
+    if (!cart || cart._id !== ctx.params[0]) {
+      return this.fail(404, `There is no such cart with id ${ctx.params[0]}`);
+    }
+
+    const now = new Date().toISOString();
+    const { details = '', phone = '', city = '' } = ctx.body.shippingAddress ?? {};
+    const order: Order = {
+      _id: this.generateId(),
+      user: { _id: user._id, name: user.name, email: user.email, phone: user.phone },
+      cartItems: cart.products.map(item => {
+        const product = this.products.find(p => p._id === item.product)!;
+        return {
+          count: item.count,
+          _id: item._id,
+          product: { ...mapProductToCartProductObject(product), ratingsQuantity: product.ratingsQuantity },
+          price: item.price
+        };
+      }),
+      shippingAddress: { details, phone, city },
+      taxPrice: 0,
+      shippingPrice: 0,
+      totalOrderPrice: this.cartTotal(cart),
+      paymentMethodType,
+      isPaid: paymentMethodType === 'card',
+      isDelivered: false,
+      ...(paymentMethodType === 'card' && { paidAt: now }),
+      createdAt: now,
+      updatedAt: now,
+      id: this.orderSequence++,
+      __v: 0
+    };
+
+    cart.products.forEach(item => {
+      const product = this.products.find(p => p._id === item.product);
+      if (product) {
+        product.quantity = Math.max(0, product.quantity - item.count);
+        product.sold += item.count;
+      }
+    });
+
+    this.orders.push(order);
+    this.carts.delete(user._id);
+
+    return order;
+  }
+
+  private getUserOrders(ctx: FakeContext): FakeResult {
+    // Real API returns a plain array here (not a CollectionResponse)
+    return this.ok(this.orders.filter(order => order.user._id === ctx.params[0]));
+  }
+
+  /**
+   * All-orders filtering: isPaid, isDelivered, paymentMethodType, sort
+   */
+  private filterOrders(query: URLSearchParams): Order[] {
+    const isPaid = query.get('isPaid');
+    const isDelivered = query.get('isDelivered');
+    const paymentMethodType = query.get('paymentMethodType');
+
+    const filtered = this.orders.filter(order =>
+      (isPaid === null || String(order.isPaid) === isPaid) &&
+      (isDelivered === null || String(order.isDelivered) === isDelivered) &&
+      (!paymentMethodType || order.paymentMethodType === paymentMethodType)
+    );
+
+    return this.sortBy(filtered, query.get('sort'));
+  }
+
+  // ===== HELPERS =====
+
+  private resolveUser(req: HttpRequest<unknown>): FakeUser | null {
+    const token = req.headers.get(HEADERS.TOKEN);
+    const userId = token ? getUserIdFromToken(token) : null;
+    return userId ? this.users.find(user => user._id === userId) ?? null : null;
+  }
+
+  private findUserByEmail(email: string | undefined): FakeUser | undefined {
+    return email ? this.users.find(user => user.email === email.toLowerCase()) : undefined;
+  }
+
+  private authResponse(user: FakeUser): unknown {
+    return {
+      message: 'success',
+      user: { name: user.name, email: user.email, role: user.role },
+      token: this.generateToken(user)
+    };
+  }
+
+  /**
+   * Unsigned JWT accepted by decodeJwt() - payload: { id, name, role, iat, exp }
+   */
+  private generateToken(user: FakeUser): string {
+    const iat = Math.floor(Date.now() / 1000);
+    return encodeUnsignedJwt({ id: user._id, name: user.name, role: user.role, iat, exp: iat + this.TOKEN_TTL_SECONDS });
+  }
+
+  /**
+   * 24-char hex ID (MongoDB ObjectId format)
+   */
+  private generateId(): string {
+    return Array.from({ length: 24 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+  }
+
+  private ok(body: unknown, status = 200): FakeResult {
+    return { status, body };
+  }
+
+  private fail(status: number, message: string, errors?: unknown[]): FakeResult {
+    return {
+      status,
+      body: {
+        statusMsg: status >= 500 ? 'error' : 'fail',
+        message,
+        ...(errors && { errors })
+      }
+    };
+  }
+}
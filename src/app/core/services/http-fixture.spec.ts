@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpRequest, HttpResponse, provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+
+import { HttpFixtureService } from './http-fixture';
+import { environment } from '../../../environments/environment';
+import { decodeJwt, encodeUnsignedJwt, isTokenExpired } from '../../shared/utils/jwt.utils';
+
+describe('HttpFixtureService', () => {
+  let fixtures: HttpFixtureService;
+
+  const signinRequest = new HttpRequest('POST', `${environment.apiUrl}/auth/signin`, {
+    email: 'demo@freshcart.test',
+    password: 'Demo@1234'
+  });
+
+  // Stand-in for a live API token: real claims with a signature
+  const liveToken = encodeUnsignedJwt({ id: 'u1', name: 'أحمد', role: 'user', iat: 1, exp: 2 }).replace(/unsigned$/, 'live-signature');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    fixtures = TestBed.inject(HttpFixtureService);
+  });
+
+  function replaySignin(): Promise<HttpResponse<any>> {
+    return firstValueFrom(fixtures.replay(signinRequest)) as Promise<HttpResponse<any>>;
+  }
+
+  it('should scrub passwords and keep only unsigned claims of recorded tokens', () => {
+    fixtures.setMode('record');
+    fixtures.record(signinRequest, 200, { message: 'success', token: liveToken });
+
+    const [entry] = fixtures.exportBundle().entries;
+    const token = (entry.responseBody as { token: string }).token;
+
+    expect((entry.requestBody as { password: string }).password).toBe('[REDACTED]');
+    expect(token).not.toContain('live-signature');
+    expect(decodeJwt(token)).toEqual({ id: 'u1', name: 'أحمد', role: 'user' });
+  });
+
+  it('should replay a recorded sign in with a fresh, unexpired token', async () => {
+    fixtures.setMode('record');
+    fixtures.record(signinRequest, 200, { message: 'success', token: liveToken });
+    fixtures.load(fixtures.exportBundle());
+
+    const response = await replaySignin();
+
+    expect(response.body.message).toBe('success');
+    expect(decodeJwt(response.body.token)?.id).toBe('u1');
+    expect(isTokenExpired(response.body.token)).toBeFalse();
+  });
+
+  it('should leave fully redacted tokens of older bundles untouched', async () => {
+    fixtures.load({
+      version: 1,
+      apiUrl: environment.apiUrl,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      entries: [{
+        method: 'POST',
+        path: '/auth/signin',
+        query: '',
+        requestHeaders: {},
+        requestBody: null,
+        status: 200,
+        responseBody: { message: 'success', token: '[REDACTED]' },
+        recordedAt: '2026-01-01T00:00:00.000Z'
+      }]
+    });
+
+    expect((await replaySignin()).body.token).toBe('[REDACTED]');
+  });
+});
@@ -0,0 +1,239 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  HttpBackend,
+  HttpClient,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpRequest,
+  HttpResponse
+} from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { tap } from 'rxjs/operators';
+
+import { environment } from '../../../environments/environment';
+import { HEADERS } from '../constants/api-endpoints.const';
+import { HttpFixtureBundle, HttpFixtureEntry, HttpFixtureMode } from '../models/http-fixture.model';
+import { decodeJwt, encodeUnsignedJwt } from '../../shared/utils/jwt.utils';
+
+/**
+ * HTTP Fixture Service
+ * Records API traffic into a downloadable fixture bundle and replays it offline
+ *
+ * - Record: every API request/response pair is captured (token header and password fields scrubbed,
+ *   token fields reduced to an unsigned copy of their claims)
+ * - Replay: requests are matched on method + path + normalized query params;
+ *   repeated calls to the same request are served in recorded order (last one repeats)
+ * - Replayed auth responses get a fresh unsigned token, so a replayed sign in starts a working session
+ *
+ * Driven by ApiService (setFixtureMode / downloadFixtures / loadFixtures) and httpFixtureInterceptor
+ * In development it is also exposed as `window.freshcartFixtures` for use from the console
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpFixtureService {
+  // Bypass interceptors when loading bundles from a URL
+  private readonly http = new HttpClient(inject(HttpBackend));
+
+  private readonly REDACTED = '[REDACTED]';
+  // Top-level body fields redacted from recorded requests and responses
+  private readonly SENSITIVE_BODY_KEYS = ['password', 'rePassword', 'currentPassword', 'newPassword'];
+  // Top-level body field holding a live token (signin, signup, resetPassword, changeMyPassword responses)
+  private readonly TOKEN_BODY_KEY = 'token';
+  private readonly REPLAY_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+  private readonly _mode = signal<HttpFixtureMode>('off');
+  readonly mode = this._mode.asReadonly();
+
+  private recorded: HttpFixtureEntry[] = [];
+  private replayQueue = new Map<string, HttpFixtureEntry[]>();
+
+  constructor() {
+    if (!environment.production) {
+      (window as unknown as Record<string, unknown>)['freshcartFixtures'] = {
+        record: () => this.setMode('record'),
+        replay: (url: string) => this.loadFromUrl(url).subscribe(),
+        stop: () => this.setMode('off'),
+        download: () => this.download()
+      };
+    }
+  }
+
+  /**
+   * Switch fixture mode
+   * Entering record mode starts a fresh recording
+   */
+  setMode(mode: HttpFixtureMode): void {
+    if (mode === 'record') {
+      this.recorded = [];
+    }
+    this._mode.set(mode);
+  }
+
+  /**
+   * Load a fixture bundle and switch to replay mode
+   */
+  load(bundle: HttpFixtureBundle): void {
+    this.replayQueue = new Map();
+    bundle.entries.forEach(entry => {
+      const key = this.buildKey(entry.method, entry.path, entry.query);
+      this.replayQueue.set(key, [...(this.replayQueue.get(key) ?? []), entry]);
+    });
+    this.setMode('replay');
+  }
+
+  /**
+   * Fetch a fixture bundle (e.g. from public/) and switch to replay mode
+   */
+  loadFromUrl(url: string): Observable<HttpFixtureBundle> {
+    return this.http.get<HttpFixtureBundle>(url).pipe(
+      tap(bundle => this.load(bundle))
+    );
+  }
+
+  /**
+   * Current recording as a fixture bundle
+   */
+  exportBundle(): HttpFixtureBundle {
+    return {
+      version: 1,
+      apiUrl: environment.apiUrl,
+      createdAt: new Date().toISOString(),
+      entries: [...this.recorded]
+    };
+  }
+
+  /**
+   * Download the current recording as a JSON file
+   */
+  download(): void {
+    const blob = new Blob([JSON.stringify(this.exportBundle(), null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `freshcart-fixtures-${Date.now()}.json`;
+    link.click();
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(link.href));
+  }
+
+  /**
+   * Capture a response (or error) for the given request
+   */
+  record(req: HttpRequest<unknown>, status: number, responseBody: unknown): void {
+    const { path, query } = this.parseUrl(req.urlWithParams);
+
+    this.recorded.push({
+      method: req.method,
+      path,
+      query,
+      requestHeaders: this.scrubHeaders(req),
+      requestBody: this.scrubBody(req.body),
+      status,
+      responseBody: this.scrubBody(responseBody),
+      recordedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Answer a request from the loaded bundle
+   * Unmatched requests fail with 404 so missing fixtures are obvious
+   */
+  replay(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const { path, query } = this.parseUrl(req.urlWithParams);
+    const queue = this.replayQueue.get(this.buildKey(req.method, path, query));
+
+    if (!queue || queue.length === 0) {
+      return throwError(() => new HttpErrorResponse({
+        status: 404,
+        error: { statusMsg: 'fail', message: `No fixture recorded for ${req.method} ${path}${query ? `?${query}` : ''}` },
+        url: req.urlWithParams
+      }));
+    }
+
+    const entry = queue.length > 1 ? queue.shift()! : queue[0];
+
+    if (entry.status >= 400 || entry.status === 0) {
+      return throwError(() => new HttpErrorResponse({
+        status: entry.status,
+        error: entry.responseBody,
+        url: req.urlWithParams
+      }));
+    }
+
+    return of(new HttpResponse({ status: entry.status, body: this.reissueToken(entry.responseBody), url: req.urlWithParams }));
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private buildKey(method: string, path: string, query: string): string {
+    return `${method.toUpperCase()} ${path}?${query}`;
+  }
+
+  /**
+   * Split an API URL into endpoint path and normalized query
+   * Query params are sorted by key, then by value, so param order does not matter
+   */
+  private parseUrl(url: string): { path: string; query: string } {
+    const parsed = new URL(url, window.location.origin);
+    const apiPath = new URL(environment.apiUrl).pathname;
+    const path = parsed.pathname.replace(apiPath, '') || '/';
+
+    const query = [...parsed.searchParams.entries()]
+      .filter(([, value]) => value !== '')
+      .sort(([keyA, valueA], [keyB, valueB]) => keyA.localeCompare(keyB) || valueA.localeCompare(valueB))
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&');
+
+    return { path, query };
+  }
+
+  private scrubHeaders(req: HttpRequest<unknown>): Record<string, string> {
+    return req.headers.keys().reduce<Record<string, string>>((headers, key) => {
+      headers[key] = key.toLowerCase() === HEADERS.TOKEN ? this.REDACTED : req.headers.get(key) ?? '';
+      return headers;
+    }, {});
+  }
+
+  private scrubBody(body: unknown): unknown {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return body ?? null;
+    }
+
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => {
+        if (this.SENSITIVE_BODY_KEYS.includes(key)) return [key, this.REDACTED];
+        if (key === this.TOKEN_BODY_KEY) return [key, this.scrubToken(value)];
+        return [key, value];
+      })
+    );
+  }
+
+  /**
+   * Replace a live token with an unsigned copy of its claims (id, name, role)
+   * Useless against the API, but replay can still restore the session from it
+   */
+  private scrubToken(token: unknown): string {
+    const payload = typeof token === 'string' ? decodeJwt(token) : null;
+    return payload ? encodeUnsignedJwt({ id: payload.id, name: payload.name, role: payload.role }) : this.REDACTED;
+  }
+
+  /**
+   * Give a replayed auth response a fresh unsigned token
+   * Recorded tokens carry no exp, so the session would otherwise be dropped right after sign in
+   * ⚠️ Bundles recorded with a fully redacted token cannot restore a session
+   */
+  private reissueToken(body: unknown): unknown {
+    const token = (body as Record<string, unknown> | null)?.[this.TOKEN_BODY_KEY];
+    const payload = typeof token === 'string' && token !== this.REDACTED ? decodeJwt(token) : null;
+
+    if (!payload) {
+      return body;
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    return {
+      ...(body as Record<string, unknown>),
+      [this.TOKEN_BODY_KEY]: encodeUnsignedJwt({ ...payload, iat, exp: iat + this.REPLAY_TOKEN_TTL_SECONDS })
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { RequestActivityCounts, RequestCategory } from '../models/request-activity.model';
+
+/**
+ * Request Activity Service
+ * Counts pending HTTP requests by category (fed by loadingInterceptor)
+ *
+ * Drives the thin top progress bar in MainLayout:
+ * - mutations show it right away
+ * - navigation requests show it only once they pass SLOW_REQUEST_THRESHOLD
+ * - background requests never show it
+ * Skeleton loaders in components remain the primary loading feedback
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RequestActivityService {
+  private readonly SLOW_REQUEST_THRESHOLD = 300; // ms
+
+  private readonly _pending = signal<RequestActivityCounts>({
+    navigation: 0,
+    mutation: 0,
+    background: 0
+  });
+  private readonly _slowPending = signal(0);
+
+  readonly pending = this._pending.asReadonly();
+  readonly pendingNavigation = computed(() => this._pending().navigation);
+  readonly pendingMutations = computed(() => this._pending().mutation);
+  readonly pendingBackground = computed(() => this._pending().background);
+  readonly slowPending = this._slowPending.asReadonly();
+
+  readonly isIdle = computed(() => {
+    const { navigation, mutation, background } = this._pending();
+    return navigation + mutation + background === 0;
+  });
+
+  /** True while the top progress bar should be visible */
+  readonly showProgress = computed(() => this.pendingMutations() > 0 || this._slowPending() > 0);
+
+  /**
+   * Register a pending request
+   * @returns Callback to call once the request settles (safe to call more than once)
+   */
+  start(category: RequestCategory): () => void {
+    this.adjust(category, 1);
+
+    let isSlow = false;
+    let isDone = false;
+
+    const slowTimer = category === 'navigation'
+      ? setTimeout(() => {
+          isSlow = true;
+          this._slowPending.update(count => count + 1);
+        }, this.SLOW_REQUEST_THRESHOLD)
+      : null;
+
+    return () => {
+      if (isDone) return;
+      isDone = true;
+
+      if (slowTimer) clearTimeout(slowTimer);
+      if (isSlow) this._slowPending.update(count => count - 1);
+      this.adjust(category, -1);
+    };
+  }
+
+  private adjust(category: RequestCategory, delta: number): void {
+    this._pending.update(counts => ({
+      ...counts,
+      [category]: Math.max(0, counts[category] + delta)
+    }));
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable, computed, signal } from '@angular/core';
+
+import { SESSION_CONFIG } from '../constants/api-endpoints.const';
+import { getTokenExpirationTime, isTokenExpired } from '../../shared/utils/jwt.utils';
+
+/**
+ * Session Monitor Service
+ * Watches the JWT `exp` claim of the active session (started by AuthService)
+ *
+ * - SESSION_CONFIG.WARNING_BEFORE_EXPIRY_MS before expiry: warningVisible turns on
+ *   (SessionExpiryDialogComponent offers re-authentication or logout)
+ * - At expiry: the onExpire callback passed to start() runs
+ *
+ * Route tokens live ~90 days, longer than the setTimeout limit (~24.8 days),
+ * so the schedule is re-evaluated every time a timer fires
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionMonitorService {
+  private readonly MAX_TIMER_DELAY = 2_147_483_647; // setTimeout limit (ms)
+
+  private readonly _expiresAt = signal<number | null>(null);
+  private readonly _warningVisible = signal(false);
+  private readonly _now = signal(Date.now());
+
+  readonly expiresAt = this._expiresAt.asReadonly();
+  readonly warningVisible = this._warningVisible.asReadonly();
+
+  /** Time left before automatic logout (updated every second while the warning is visible) */
+  readonly remainingMs = computed(() => {
+    const expiresAt = this._expiresAt();
+    return expiresAt ? Math.max(0, expiresAt - this._now()) : 0;
+  });
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private onExpire: (() => void) | null = null;
+
+  /**
+   * Start monitoring a token (replaces any previous session)
+   * An already expired token triggers onExpire immediately
+   */
+  start(token: string, onExpire: () => void): void {
+    this.stop();
+
+    if (isTokenExpired(token)) {
+      onExpire();
+      return;
+    }
+
+    this.onExpire = onExpire;
+    this._expiresAt.set(Date.now() + getTokenExpirationTime(token));
+    this.schedule();
+  }
+
+  /**
+   * Stop monitoring (logout)
+   */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.ticker) clearInterval(this.ticker);
+    this.timer = null;
+    this.ticker = null;
+    this.onExpire = null;
+    this._expiresAt.set(null);
+    this._warningVisible.set(false);
+  }
+
+  /**
+   * Arm the next timer for the current phase (before warning, warning, expired)
+   */
+  private schedule(): void {
+    const expiresAt = this._expiresAt();
+    if (!expiresAt) return;
+
+    const untilExpiry = expiresAt - Date.now();
+    const untilWarning = untilExpiry - SESSION_CONFIG.WARNING_BEFORE_EXPIRY_MS;
+
+    if (untilExpiry <= 0) {
+      this.expire();
+      return;
+    }
+
+    if (untilWarning <= 0) {
+      this.showWarning();
+    }
+
+    const delay = untilWarning > 0 ? untilWarning : untilExpiry;
+    this.timer = setTimeout(() => this.schedule(), Math.min(delay, this.MAX_TIMER_DELAY));
+  }
+
+  private showWarning(): void {
+    if (this._warningVisible()) return;
+
+    this._now.set(Date.now());
+    this._warningVisible.set(true);
+    this.ticker = setInterval(() => this._now.set(Date.now()), 1000);
+  }
+
+  private expire(): void {
+    const onExpire = this.onExpire;
+    this.stop();
+    onExpire?.();
+  }
+}
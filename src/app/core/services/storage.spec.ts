@@ -0,0 +1,138 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StorageService } from './storage';
+import { VersionedStorageDefinition } from '../models/storage.model';
+import { s } from '../../shared/utils/schema.utils';
+
+interface TestEntry {
+  items: Array<{ id: string; count: number }>;
+}
+
+const KEY = 'freshcart_storage_spec';
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * v0: { products: string[] } (pre-envelope, stored as a JSON string inside JSON)
+ * v1: { items: string[] }
+ * v2: { items: { id, count }[] }
+ */
+const DEFINITION: VersionedStorageDefinition<TestEntry> = {
+  version: 2,
+  schema: s.object({ items: s.array(s.object({ id: s.string(), count: s.number() })) }),
+  migrations: {
+    1: data => ({ items: (data as { products: string[] }).products }),
+    2: data => ({ items: (data as { items: string[] }).items.map(id => ({ id, count: 1 })) })
+  },
+  ttlMs: 7 * DAY
+};
+
+describe('StorageService', () => {
+  let storage: StorageService;
+  let now: number;
+
+  beforeEach(() => {
+    storage = TestBed.inject(StorageService);
+    now = Date.UTC(2026, 0, 10);
+    spyOn(Date, 'now').and.callFake(() => now);
+    spyOn(console, 'warn');
+  });
+
+  afterEach(() => {
+    storage.removeItem(KEY);
+    storage.removeQuarantinedItem(KEY);
+  });
+
+  function stored(): unknown {
+    const raw = localStorage.getItem(KEY);
+    return raw === null ? null : JSON.parse(raw);
+  }
+
+  describe('versioned entries', () => {
+    it('should round-trip the current version', () => {
+      const data: TestEntry = { items: [{ id: 'a', count: 2 }] };
+      storage.setVersionedItem(KEY, data, DEFINITION);
+
+      expect(stored()).toEqual({ version: 2, savedAt: now, data });
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toEqual(data);
+    });
+
+    it('should migrate older versions and write them back with their original save time', () => {
+      const savedAt = now - DAY;
+      localStorage.setItem(KEY, JSON.stringify({ version: 1, savedAt, data: { items: ['a', 'b'] } }));
+
+      const expected: TestEntry = { items: [{ id: 'a', count: 1 }, { id: 'b', count: 1 }] };
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toEqual(expected);
+      expect(stored()).toEqual({ version: 2, savedAt, data: expected });
+    });
+
+    it('should read legacy double-encoded entries as version 0', () => {
+      const lastUpdated = now - DAY;
+      localStorage.setItem(KEY, JSON.stringify(JSON.stringify({ products: ['a'], lastUpdated })));
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toEqual({ items: [{ id: 'a', count: 1 }] });
+      expect(stored()).toEqual(jasmine.objectContaining({ version: 2, savedAt: lastUpdated }));
+    });
+
+    it('should drop entries past the TTL', () => {
+      storage.setVersionedItem(KEY, { items: [] }, DEFINITION);
+      now += 8 * DAY;
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+      expect(stored()).toBeNull();
+      expect(storage.getQuarantinedItem(KEY)).toBeNull();
+    });
+
+    it('should return null for missing entries', () => {
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+    });
+  });
+
+  describe('quarantine', () => {
+    it('should quarantine invalid JSON', () => {
+      localStorage.setItem(KEY, '{not json');
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+      expect(stored()).toBeNull();
+      expect(storage.getQuarantinedItem(KEY)).toEqual({
+        key: KEY,
+        raw: '{not json',
+        reason: 'Invalid JSON',
+        quarantinedAt: now
+      });
+    });
+
+    it('should quarantine entries saved by a newer version', () => {
+      const raw = JSON.stringify({ version: 3, savedAt: now, data: {} });
+      localStorage.setItem(KEY, raw);
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+      expect(storage.getQuarantinedItem(KEY)).toEqual(jasmine.objectContaining({
+        raw,
+        reason: 'Saved by a newer version (3 > 2)'
+      }));
+    });
+
+    it('should quarantine entries whose migration fails', () => {
+      localStorage.setItem(KEY, JSON.stringify({ version: 1, savedAt: now, data: { items: null } }));
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+      expect(storage.getQuarantinedItem(KEY)?.reason).toMatch(/^Migration failed: /);
+    });
+
+    it('should quarantine entries failing the schema check', () => {
+      localStorage.setItem(KEY, JSON.stringify({ version: 2, savedAt: now, data: { items: [{ id: 'a', count: '1' }] } }));
+
+      expect(storage.getVersionedItem(KEY, DEFINITION)).toBeNull();
+      expect(storage.getQuarantinedItem(KEY)?.reason).toBe('Expected number at data.items[0].count, received string');
+    });
+
+    it('should discard the quarantined copy on request', () => {
+      localStorage.setItem(KEY, '{not json');
+      storage.getVersionedItem(KEY, DEFINITION);
+
+      storage.removeQuarantinedItem(KEY);
+
+      expect(storage.getQuarantinedItem(KEY)).toBeNull();
+    });
+  });
+});
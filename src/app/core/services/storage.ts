@@ -1,12 +1,25 @@
 import { Injectable } from '@angular/core';
-import { STORAGE_KEYS } from '../constants/api-endpoints.const';
+import { SESSION_STORAGE_KEYS, STORAGE_KEYS } from '../constants/api-endpoints.const';
 import { User } from '../models/user.model';
+import {
+  QuarantinedStorageEntry,
+  StorageEnvelope,
+  StoragePersistence,
+  VersionedStorageDefinition
+} from '../models/storage.model';
 import { getUserIdFromToken } from '../../shared/utils/jwt.utils';
 
 /**
  * Storage Service
  * Handles localStorage and sessionStorage operations for FreshCart
  * Based on real API testing and authentication requirements
+ *
+ * Session-scoped keys (SESSION_STORAGE_KEYS: token, user data, cart) are stored in the
+ * backend chosen at login - localStorage ("keep me signed in") or sessionStorage.
+ * Everything else (language, theme, ...) always lives in localStorage.
+ *
+ * Versioned entries (guest cart, wishlist) are wrapped in a StorageEnvelope and upgraded
+ * through their migrations on read - see getVersionedItem.
  */
 @Injectable({
   providedIn: 'root'
@@ -14,49 +27,197 @@ import { getUserIdFromToken } from '../../shared/utils/jwt.utils';
 export class StorageService {
 
   /**
-   * Generic method to set item in localStorage
+   * Generic method to set item in storage
    */
   setItem(key: string, value: any): void {
     try {
       const serializedValue = JSON.stringify(value);
-      localStorage.setItem(key, serializedValue);
+      this.backendFor(key).setItem(key, serializedValue);
     } catch (error) {
-      console.error('Error storing item in localStorage:', error);
+      console.error('Error storing item in storage:', error);
     }
   }
 
   /**
-   * Generic method to get item from localStorage
+   * Generic method to get item from storage
    */
   getItem<T>(key: string): T | null {
     try {
-      const item = localStorage.getItem(key);
+      const item = this.backendFor(key).getItem(key);
       return item ? JSON.parse(item) : null;
     } catch (error) {
-      console.error('Error retrieving item from localStorage:', error);
+      console.error('Error retrieving item from storage:', error);
       return null;
     }
   }
 
   /**
-   * Generic method to remove item from localStorage
+   * Generic method to remove item from storage
    */
   removeItem(key: string): void {
     try {
-      localStorage.removeItem(key);
+      this.backendFor(key).removeItem(key);
     } catch (error) {
-      console.error('Error removing item from localStorage:', error);
+      console.error('Error removing item from storage:', error);
     }
   }
 
   /**
-   * Clear all items from localStorage
+   * Clear all items from localStorage and sessionStorage
    */
   clearAll(): void {
     try {
       localStorage.clear();
+      sessionStorage.clear();
     } catch (error) {
-      console.error('Error clearing localStorage:', error);
+      console.error('Error clearing storage:', error);
+    }
+  }
+
+  // ===== Versioned Entries =====
+
+  /**
+   * Store data in a versioned envelope
+   */
+  setVersionedItem<T>(key: string, data: T, definition: VersionedStorageDefinition<T>): void {
+    const envelope: StorageEnvelope<T> = {
+      version: definition.version,
+      savedAt: Date.now(),
+      data
+    };
+    this.setItem(key, envelope);
+  }
+
+  /**
+   * Read a versioned entry, upgrading it to the current version
+   *
+   * ✅ Older versions run through the definition's migrations and are written back upgraded
+   * ✅ Entries past the definition's TTL are removed
+   * ⚠️ Unreadable entries (bad JSON, unknown version, failed migration or schema check)
+   *    are quarantined instead of dropped - see getQuarantinedItem
+   */
+  getVersionedItem<T>(key: string, definition: VersionedStorageDefinition<T>): T | null {
+    let raw: string | null;
+    try {
+      raw = this.backendFor(key).getItem(key);
+    } catch (error) {
+      console.error('Error retrieving item from storage:', error);
+      return null;
+    }
+    if (raw === null) return null;
+
+    let envelope: StorageEnvelope<unknown>;
+    try {
+      envelope = this.toEnvelope(JSON.parse(raw));
+    } catch {
+      this.quarantine(key, raw, 'Invalid JSON');
+      return null;
+    }
+
+    if (definition.ttlMs !== undefined && Date.now() - envelope.savedAt > definition.ttlMs) {
+      this.removeItem(key);
+      return null;
+    }
+
+    if (envelope.version > definition.version) {
+      this.quarantine(key, raw, `Saved by a newer version (${envelope.version} > ${definition.version})`);
+      return null;
+    }
+
+    let data = envelope.data;
+    try {
+      for (let version = envelope.version + 1; version <= definition.version; version++) {
+        const migrate = definition.migrations[version];
+        if (!migrate) {
+          throw new Error(`No migration to version ${version}`);
+        }
+        data = migrate(data);
+      }
+    } catch (error) {
+      this.quarantine(key, raw, `Migration failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+
+    const issue = definition.schema.validate(data, 'data');
+    if (issue) {
+      this.quarantine(key, raw, `Expected ${issue.expected} at ${issue.path}, received ${issue.received}`);
+      return null;
+    }
+
+    // Write the upgraded entry back, keeping its original save time for the TTL
+    if (envelope.version !== definition.version) {
+      this.setItem(key, { version: definition.version, savedAt: envelope.savedAt, data });
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Quarantined copy of an unreadable entry, if any
+   */
+  getQuarantinedItem(key: string): QuarantinedStorageEntry | null {
+    try {
+      const item = this.backendFor(key).getItem(this.quarantineKey(key));
+      return item ? JSON.parse(item) : null;
+    } catch (error) {
+      console.error('Error retrieving item from storage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Discard the quarantined copy of an entry
+   */
+  removeQuarantinedItem(key: string): void {
+    try {
+      this.backendFor(key).removeItem(this.quarantineKey(key));
+    } catch (error) {
+      console.error('Error removing item from storage:', error);
+    }
+  }
+
+  // ===== Session Persistence =====
+
+  /**
+   * Where session-scoped keys currently live
+   * The 'session' marker is kept in sessionStorage, so it ends with the browser session too
+   */
+  getPersistence(): StoragePersistence {
+    try {
+      return sessionStorage.getItem(STORAGE_KEYS.SESSION_PERSISTENCE) === 'session' ? 'session' : 'local';
+    } catch {
+      return 'local';
+    }
+  }
+
+  /**
+   * Switch the backend for session-scoped keys
+   * Existing token, user data and cart entries move along to the new backend
+   */
+  setPersistence(persistence: StoragePersistence): void {
+    const current = this.getPersistence();
+
+    try {
+      if (current !== persistence) {
+        const from = this.backend(current);
+        const to = this.backend(persistence);
+
+        SESSION_STORAGE_KEYS.forEach(key => {
+          const value = from.getItem(key);
+          if (value !== null) {
+            to.setItem(key, value);
+            from.removeItem(key);
+          }
+        });
+      }
+
+      if (persistence === 'session') {
+        sessionStorage.setItem(STORAGE_KEYS.SESSION_PERSISTENCE, 'session');
+      } else {
+        sessionStorage.removeItem(STORAGE_KEYS.SESSION_PERSISTENCE);
+      }
+    } catch (error) {
+      console.error('Error switching storage persistence:', error);
     }
   }
 
@@ -175,9 +336,18 @@ export class StorageService {
    * Complete logout - remove all user-related data
    */
   logout(): void {
-    this.removeToken();
-    this.removeUserData();
-    this.removeCartData();
+    // Clear both backends - another tab may have copied the session into its sessionStorage
+    [STORAGE_KEYS.JWT_TOKEN, STORAGE_KEYS.USER_DATA, STORAGE_KEYS.CART_DATA].forEach(key => {
+      try {
+        localStorage.removeItem(key);
+        sessionStorage.removeItem(key);
+      } catch (error) {
+        console.error('Error removing item from storage:', error);
+      }
+    });
+
+    // Back to localStorage for the guest session (guest cart moves along)
+    this.setPersistence('local');
     // Keep language and theme preferences
   }
 
@@ -219,4 +389,61 @@ export class StorageService {
     const userData = this.getUserData();
     return userData?.role || null;
   }
+
+  // ===== Private Helpers =====
+
+  private backend(persistence: StoragePersistence): Storage {
+    return persistence === 'session' ? sessionStorage : localStorage;
+  }
+
+  /**
+   * Storage backend for a key - only session-scoped keys follow the chosen persistence
+   */
+  private backendFor(key: string): Storage {
+    return SESSION_STORAGE_KEYS.includes(key) ? this.backend(this.getPersistence()) : localStorage;
+  }
+
+  private quarantineKey(key: string): string {
+    return `${STORAGE_KEYS.QUARANTINE}_${key}`;
+  }
+
+  /**
+   * Wrap a parsed entry in an envelope
+   * Entries written before versioning are version 0: they were stored pre-serialized
+   * (a JSON string inside JSON) and kept their save time in `lastUpdated`
+   */
+  private toEnvelope(value: unknown): StorageEnvelope<unknown> {
+    if (this.isEnvelope(value)) return value;
+    if (typeof value === 'string') {
+      value = JSON.parse(value);
+    }
+
+    const lastUpdated = (value as { lastUpdated?: unknown } | null)?.lastUpdated;
+    return {
+      version: 0,
+      savedAt: typeof lastUpdated === 'number' ? lastUpdated : Date.now(),
+      data: value
+    };
+  }
+
+  private isEnvelope(value: unknown): value is StorageEnvelope<unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const { version, savedAt } = value as Partial<StorageEnvelope<unknown>>;
+    return typeof version === 'number' && typeof savedAt === 'number' && 'data' in value;
+  }
+
+  /**
+   * Move an unreadable entry aside (same backend as the original key) and remove it
+   */
+  private quarantine(key: string, raw: string, reason: string): void {
+    console.warn(`Quarantined unreadable storage entry "${key}": ${reason}`);
+
+    const entry: QuarantinedStorageEntry = { key, raw, reason, quarantinedAt: Date.now() };
+    try {
+      this.backendFor(key).setItem(this.quarantineKey(key), JSON.stringify(entry));
+    } catch (error) {
+      console.error('Error quarantining storage entry:', error);
+    }
+    this.removeItem(key);
+  }
 }
@@ -0,0 +1,43 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Admin Routes
+ * Ops area for users and all orders
+ * Access is restricted to admins by roleGuard on the parent 'admin' route (app.routes.ts)
+ */
+export const ADMIN_ROUTES: Routes = [
+  {
+    path: '',
+    loadComponent: () =>
+      import('./components/admin-layout/admin-layout').then((m) => m.AdminLayout),
+    children: [
+      {
+        path: '',
+        redirectTo: 'orders',
+        pathMatch: 'full'
+      },
+      // All Orders - Filters and revenue KPIs
+      {
+        path: 'orders',
+        loadComponent: () =>
+          import('./components/admin-orders-page/admin-orders-page').then((m) => m.AdminOrdersPage),
+        title: 'All Orders - FreshCart Admin',
+        data: {
+          description: 'Review all customer orders and revenue',
+          keywords: 'admin, orders, revenue, FreshCart'
+        }
+      },
+      // Users - Registered customers
+      {
+        path: 'users',
+        loadComponent: () =>
+          import('./components/admin-users-page/admin-users-page').then((m) => m.AdminUsersPage),
+        title: 'Users - FreshCart Admin',
+        data: {
+          description: 'Browse registered users',
+          keywords: 'admin, users, customers, FreshCart'
+        }
+      }
+    ]
+  }
+];
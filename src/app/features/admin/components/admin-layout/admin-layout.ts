@@ -0,0 +1,29 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+
+// Translation
+import { TranslateModule } from '@ngx-translate/core';
+
+/**
+ * Admin Layout Component
+ * Header and section tabs (orders / users) around the admin pages
+ */
+@Component({
+  selector: 'app-admin-layout',
+  imports: [
+    RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './admin-layout.html',
+  styleUrl: './admin-layout.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AdminLayout {
+  readonly tabs = [
+    { labelKey: 'ADMIN.TABS.ORDERS', icon: 'pi pi-receipt', route: 'orders' },
+    { labelKey: 'ADMIN.TABS.USERS', icon: 'pi pi-users', route: 'users' }
+  ] as const;
+}
@@ -0,0 +1,217 @@
+import { Component, inject, signal, computed, DestroyRef, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Subscription } from 'rxjs';
+
+// PrimeNG Components
+import { CardModule } from 'primeng/card';
+import { ButtonModule } from 'primeng/button';
+import { TableModule, TableLazyLoadEvent } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { SelectModule } from 'primeng/select';
+import { MessageModule } from 'primeng/message';
+import { SkeletonModule } from 'primeng/skeleton';
+
+// Translation
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+// Services
+import { AdminService } from '../../services/admin.service';
+import { OrdersService } from '../../../profile/services/orders.service';
+import { I18nService } from '../../../../core/services/i18n';
+
+// Models
+import { Order } from '../../../profile/models/order.model';
+import { AdminOrderFilters, RevenueKpis } from '../../models/admin.model';
+import {
+  DELIVERY_FILTER_OPTIONS,
+  PAID_FILTER_OPTIONS,
+  PAYMENT_TYPE_FILTER_OPTIONS
+} from '../../constants/admin-filter-options.const';
+
+/**
+ * Admin Orders Page Component
+ * Server-paginated table of all orders (GET /orders) with paid / delivered / payment type
+ * filters, and revenue KPIs computed over every order matching the filters
+ */
+@Component({
+  selector: 'app-admin-orders-page',
+  imports: [
+    CommonModule,
+    FormsModule,
+    // Translation
+    TranslateModule,
+    // PrimeNG
+    CardModule,
+    ButtonModule,
+    TableModule,
+    TagModule,
+    SelectModule,
+    MessageModule,
+    SkeletonModule
+  ],
+  templateUrl: './admin-orders-page.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AdminOrdersPage implements OnInit {
+  private readonly adminService = inject(AdminService);
+  private readonly ordersService = inject(OrdersService);
+  private readonly translateService = inject(TranslateService);
+  private readonly i18nService = inject(I18nService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly pageSize = this.adminService.ORDERS_PAGE_SIZE;
+
+  // Component state
+  readonly orders = signal<Order[]>([]);
+  readonly totalRecords = signal(0);
+  readonly first = signal(0);
+  readonly loading = signal(false);
+  readonly error = signal('');
+  readonly filters = signal<AdminOrderFilters>({
+    isPaid: null,
+    isDelivered: null,
+    paymentMethodType: null
+  });
+
+  // Revenue KPIs
+  readonly kpis = signal<RevenueKpis | null>(null);
+  readonly kpisLoading = signal(false);
+  readonly kpisError = signal(false);
+
+  private ordersSubscription?: Subscription;
+  private kpisSubscription?: Subscription;
+
+  // Filter options (re-translated when the language changes)
+  readonly paidOptions = computed(() => this.translateOptions(PAID_FILTER_OPTIONS));
+  readonly deliveryOptions = computed(() => this.translateOptions(DELIVERY_FILTER_OPTIONS));
+  readonly paymentTypeOptions = computed(() => this.translateOptions(PAYMENT_TYPE_FILTER_OPTIONS));
+
+  readonly hasActiveFilters = computed(() =>
+    Object.values(this.filters()).some(value => value !== null)
+  );
+
+  ngOnInit(): void {
+    this.loadKpis();
+  }
+
+  /**
+   * Load the requested table page (p-table lazy mode)
+   */
+  onLazyLoad(event: TableLazyLoadEvent): void {
+    const rows = event.rows ?? this.pageSize;
+    this.first.set(event.first ?? 0);
+    this.loadOrders(Math.floor(this.first() / rows) + 1, rows);
+  }
+
+  /**
+   * Update one filter - back to the first page and refresh KPIs
+   */
+  updateFilter<K extends keyof AdminOrderFilters>(key: K, value: AdminOrderFilters[K] | undefined): void {
+    this.filters.update(filters => ({ ...filters, [key]: value ?? null }));
+    this.applyFilters();
+  }
+
+  /**
+   * Reset all filters
+   */
+  clearFilters(): void {
+    this.filters.set({ isPaid: null, isDelivered: null, paymentMethodType: null });
+    this.applyFilters();
+  }
+
+  /**
+   * Retry loading orders and KPIs
+   */
+  retry(): void {
+    this.loadOrders(Math.floor(this.first() / this.pageSize) + 1, this.pageSize);
+    this.loadKpis();
+  }
+
+  /**
+   * Clear error message
+   */
+  clearError(): void {
+    this.error.set('');
+  }
+
+  /**
+   * Get payment method severity
+   */
+  getPaymentMethodSeverity(paymentMethod: 'cash' | 'card'): 'success' | 'info' {
+    return this.ordersService.getPaymentMethodSeverity(paymentMethod);
+  }
+
+  /**
+   * Total quantity of items in an order
+   */
+  getItemsCount(order: Order): number {
+    return order.cartItems.reduce((sum, item) => sum + item.count, 0);
+  }
+
+  /**
+   * Format price for display
+   */
+  formatPrice(price: number): string {
+    return this.ordersService.formatPrice(price);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private applyFilters(): void {
+    this.first.set(0);
+    this.loadOrders(1, this.pageSize);
+    this.loadKpis();
+  }
+
+  private loadOrders(page: number, rows: number): void {
+    this.loading.set(true);
+    this.error.set('');
+
+    // Drop a slower response for previous filters or page
+    this.ordersSubscription?.unsubscribe();
+    this.ordersSubscription = this.adminService.getAllOrders(page, this.filters(), rows)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (response) => {
+          this.orders.set(response.data);
+          this.totalRecords.set(response.results);
+          this.loading.set(false);
+        },
+        error: (error) => {
+          this.error.set(error?.message || this.translateService.instant('ADMIN.ORDERS.LOAD_ERROR'));
+          this.loading.set(false);
+        }
+      });
+  }
+
+  private loadKpis(): void {
+    this.kpisLoading.set(true);
+    this.kpisError.set(false);
+
+    this.kpisSubscription?.unsubscribe();
+    this.kpisSubscription = this.adminService.getRevenueKpis(this.filters())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (kpis) => {
+          this.kpis.set(kpis);
+          this.kpisLoading.set(false);
+        },
+        error: () => {
+          this.kpis.set(null);
+          this.kpisError.set(true);
+          this.kpisLoading.set(false);
+        }
+      });
+  }
+
+  private translateOptions<T>(options: readonly { labelKey: string; value: T }[]): { label: string; value: T }[] {
+    // Include currentLanguage in the computed to create reactive dependency
+    this.i18nService.currentLanguage();
+    return options.map(option => ({
+      label: this.translateService.instant(option.labelKey),
+      value: option.value
+    }));
+  }
+}
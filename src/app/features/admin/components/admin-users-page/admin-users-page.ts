@@ -0,0 +1,90 @@
+import { Component, inject, signal, DestroyRef, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+
+// PrimeNG Components
+import { CardModule } from 'primeng/card';
+import { TableModule, TableLazyLoadEvent } from 'primeng/table';
+import { TagModule } from 'primeng/tag';
+import { MessageModule } from 'primeng/message';
+
+// Translation
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+// Services
+import { AdminService } from '../../services/admin.service';
+
+// Models
+import { AdminUser } from '../../models/admin.model';
+
+/**
+ * Admin Users Page Component
+ * Server-paginated table of registered users (GET /users)
+ */
+@Component({
+  selector: 'app-admin-users-page',
+  imports: [
+    CommonModule,
+    // Translation
+    TranslateModule,
+    // PrimeNG
+    CardModule,
+    TableModule,
+    TagModule,
+    MessageModule
+  ],
+  templateUrl: './admin-users-page.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AdminUsersPage {
+  private readonly adminService = inject(AdminService);
+  private readonly translateService = inject(TranslateService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly pageSize = this.adminService.USERS_PAGE_SIZE;
+
+  // Component state
+  readonly users = signal<AdminUser[]>([]);
+  readonly totalRecords = signal(0);
+  readonly loading = signal(false);
+  readonly error = signal('');
+
+  /**
+   * Load the requested table page (p-table lazy mode)
+   */
+  onLazyLoad(event: TableLazyLoadEvent): void {
+    const rows = event.rows ?? this.pageSize;
+    const page = Math.floor((event.first ?? 0) / rows) + 1;
+
+    this.loading.set(true);
+    this.error.set('');
+
+    this.adminService.getUsers(page, rows)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (response) => {
+          this.users.set(response.users);
+          this.totalRecords.set(response.results);
+          this.loading.set(false);
+        },
+        error: (error) => {
+          this.error.set(error?.message || this.translateService.instant('ADMIN.USERS.LOAD_ERROR'));
+          this.loading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Clear error message
+   */
+  clearError(): void {
+    this.error.set('');
+  }
+
+  /**
+   * Get role severity for PrimeNG Tag
+   */
+  getRoleSeverity(role: AdminUser['role']): 'warn' | 'secondary' {
+    return role === 'admin' ? 'warn' : 'secondary';
+  }
+}
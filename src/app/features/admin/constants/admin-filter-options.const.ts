@@ -0,0 +1,19 @@
+/**
+ * Admin Order Filter Options
+ * Options for the all-orders filters (clearing a filter shows all orders)
+ * labelKey contains the i18n translation key
+ */
+export const PAID_FILTER_OPTIONS = [
+  { labelKey: 'ADMIN.ORDERS.FILTERS.PAID', value: true },
+  { labelKey: 'ADMIN.ORDERS.FILTERS.UNPAID', value: false }
+] as const;
+
+export const DELIVERY_FILTER_OPTIONS = [
+  { labelKey: 'ADMIN.ORDERS.FILTERS.DELIVERED', value: true },
+  { labelKey: 'ADMIN.ORDERS.FILTERS.NOT_DELIVERED', value: false }
+] as const;
+
+export const PAYMENT_TYPE_FILTER_OPTIONS = [
+  { labelKey: 'ADMIN.ORDERS.FILTERS.CASH', value: 'cash' },
+  { labelKey: 'ADMIN.ORDERS.FILTERS.CARD', value: 'card' }
+] as const;
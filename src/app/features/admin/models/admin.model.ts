@@ -0,0 +1,52 @@
+// Admin Models - Users and all-orders views for ops staff
+// Based on Route E-commerce API: GET /users, GET /orders (admin token required)
+
+import { PaginationMetadata } from '../../../core/models/api-response.model';
+import { User } from '../../../core/models/user.model';
+
+/**
+ * Admin User Interface
+ * Based on real API response: GET /api/v1/users
+ */
+export interface AdminUser {
+  _id: string;                                    // User ID
+  name: string;                                   // Full name
+  email: string;                                  // Email address
+  phone?: string;                                 // Phone number
+  role: User['role'];                             // User role
+  active?: boolean;                               // Account status
+  createdAt?: string;                             // Registration date
+}
+
+/**
+ * Users Response Format
+ * ⚠️ Unlike other collections, GET /users returns items under "users" (not "data")
+ */
+export interface UsersResponse {
+  results: number;                                // Total users count
+  metadata: PaginationMetadata;                   // Pagination info
+  users: AdminUser[];                             // Users on this page
+}
+
+/**
+ * All-Orders Filters
+ * null = no filter on that field
+ */
+export interface AdminOrderFilters {
+  isPaid: boolean | null;
+  isDelivered: boolean | null;
+  paymentMethodType: 'cash' | 'card' | null;
+}
+
+/**
+ * Revenue KPIs
+ * Computed over every order matching the active filters (not just the visible page)
+ */
+export interface RevenueKpis {
+  ordersCount: number;                            // Orders matching the filters
+  totalRevenue: number;                           // Sum of totalOrderPrice
+  paidRevenue: number;                            // Revenue from paid orders
+  outstandingRevenue: number;                     // Revenue not collected yet (unpaid orders)
+  averageOrderValue: number;                      // totalRevenue / ordersCount
+  deliveredRate: number;                          // Delivered orders share (0-1)
+}
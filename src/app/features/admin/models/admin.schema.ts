@@ -0,0 +1,31 @@
+// Admin Schemas - Runtime validation for admin.model.ts
+// Only fields the UI relies on are checked; extra fields are allowed
+
+import { s } from '../../../shared/utils/schema.utils';
+import { collectionResponseSchema, paginationMetadataSchema } from '../../../core/models/api-response.schema';
+import { orderSchema } from '../../profile/models/order.schema';
+
+/**
+ * Admin User Schema
+ * Based on real API response: GET /api/v1/users
+ */
+export const adminUserSchema = s.object({
+  _id: s.string(),
+  name: s.string(),
+  email: s.string(),
+  role: s.literal('user', 'admin')
+});
+
+/**
+ * Users Response Schema - GET /users ({ results, metadata, users[] })
+ */
+export const usersResponseSchema = s.object({
+  results: s.number(),
+  metadata: paginationMetadataSchema,
+  users: s.array(adminUserSchema)
+});
+
+/**
+ * All Orders Schema - GET /orders (standard collection response)
+ */
+export const allOrdersResponseSchema = collectionResponseSchema(orderSchema);
@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+import { EMPTY, Observable } from 'rxjs';
+import { expand, map, reduce } from 'rxjs/operators';
+
+import { ApiService } from '../../../core/services/api';
+import { ORDER_ENDPOINTS, USER_ENDPOINTS } from '../../../core/constants/api-endpoints.const';
+import { CollectionResponse } from '../../../core/models/api-response.model';
+import { Order, OrderQueryParams } from '../../profile/models/order.model';
+import { AdminOrderFilters, RevenueKpis, UsersResponse } from '../models/admin.model';
+import { allOrdersResponseSchema, usersResponseSchema } from '../models/admin.schema';
+
+/**
+ * Admin Service
+ * Users and all-orders API operations for the admin area
+ * Following the same pattern as OrdersService
+ *
+ * ⚠️ GET /users and GET /orders require an admin token - routes are protected by roleGuard
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminService {
+  private readonly api = inject(ApiService);
+
+  readonly USERS_PAGE_SIZE = 20;
+  readonly ORDERS_PAGE_SIZE = 20;
+
+  // Page size used to walk every matching order when computing KPIs
+  private readonly KPI_PAGE_SIZE = 200;
+
+  /**
+   * Get a page of users
+   * API: GET /api/v1/users?page={page}&limit={limit}
+   */
+  getUsers(page: number, limit = this.USERS_PAGE_SIZE): Observable<UsersResponse> {
+    return this.api.get<UsersResponse>(
+      USER_ENDPOINTS.GET_ALL_USERS,
+      { page, limit, sort: '-createdAt' },
+      { schema: usersResponseSchema }
+    );
+  }
+
+  /**
+   * Get a page of all orders (every user)
+   * API: GET /api/v1/orders?page={page}&limit={limit}&isPaid=...&isDelivered=...&paymentMethodType=...
+   */
+  getAllOrders(
+    page: number,
+    filters: AdminOrderFilters,
+    limit = this.ORDERS_PAGE_SIZE
+  ): Observable<CollectionResponse<Order>> {
+    return this.api.get<CollectionResponse<Order>>(
+      ORDER_ENDPOINTS.GET_ALL_ORDERS,
+      this.buildOrderParams(page, limit, filters),
+      { schema: allOrdersResponseSchema }
+    );
+  }
+
+  /**
+   * Revenue KPIs for every order matching the filters
+   * Walks all pages (KPI_PAGE_SIZE per request) so totals don't depend on the visible page
+   */
+  getRevenueKpis(filters: AdminOrderFilters): Observable<RevenueKpis> {
+    return this.getAllOrders(1, filters, this.KPI_PAGE_SIZE).pipe(
+      expand(response => response.metadata.nextPage
+        ? this.getAllOrders(response.metadata.nextPage, filters, this.KPI_PAGE_SIZE)
+        : EMPTY
+      ),
+      reduce((orders: Order[], response) => [...orders, ...response.data], []),
+      map(orders => this.calculateRevenueKpis(orders))
+    );
+  }
+
+  /**
+   * Calculate revenue KPIs from a list of orders
+   */
+  calculateRevenueKpis(orders: Order[]): RevenueKpis {
+    const ordersCount = orders.length;
+    const totalRevenue = orders.reduce((sum, order) => sum + order.totalOrderPrice, 0);
+    const paidRevenue = orders
+      .filter(order => order.isPaid)
+      .reduce((sum, order) => sum + order.totalOrderPrice, 0);
+    const deliveredCount = orders.filter(order => order.isDelivered).length;
+
+    return {
+      ordersCount,
+      totalRevenue,
+      paidRevenue,
+      outstandingRevenue: totalRevenue - paidRevenue,
+      averageOrderValue: ordersCount > 0 ? totalRevenue / ordersCount : 0,
+      deliveredRate: ordersCount > 0 ? deliveredCount / ordersCount : 0
+    };
+  }
+
+  // ===== PRIVATE HELPER METHODS =====
+
+  /**
+   * Build query params - only active filters are sent
+   */
+  private buildOrderParams(page: number, limit: number, filters: AdminOrderFilters): OrderQueryParams {
+    return {
+      page,
+      limit,
+      sort: '-createdAt',
+      ...(filters.isPaid !== null && { isPaid: filters.isPaid }),
+      ...(filters.isDelivered !== null && { isDelivered: filters.isDelivered }),
+      ...(filters.paymentMethodType !== null && { paymentMethodType: filters.paymentMethodType })
+    };
+  }
+}
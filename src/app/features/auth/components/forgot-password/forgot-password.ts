@@ -1,19 +1,169 @@
-import { Component } from '@angular/core';
+import { Component, DestroyRef, OnInit, inject, signal, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Router, RouterModule } from '@angular/router';
+
+// PrimeNG Imports
 import { CardModule } from 'primeng/card';
+import { InputTextModule } from 'primeng/inputtext';
+import { InputOtpModule } from 'primeng/inputotp';
 import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
 
 // Translation
-import { TranslateModule } from '@ngx-translate/core';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+import { PasswordResetFlowService } from '../../services/password-reset-flow';
 
 /**
- * Forgot Password Component (Placeholder)
- * TODO: Implement forgot password functionality in future task
+ * Forgot Password Component
+ * Steps 1 and 2 of the password reset flow:
+ * 1. Email entry → reset code sent by email
+ * 2. 6-digit code entry (with resend cooldown) → continues to ResetPasswordComponent
  */
 @Component({
   selector: 'app-forgot-password',
-  imports: [CommonModule, RouterModule, CardModule, ButtonModule, TranslateModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    // PrimeNG Components
+    CardModule,
+    InputTextModule,
+    InputOtpModule,
+    ButtonModule,
+    MessageModule,
+    // Translation
+    TranslateModule
+  ],
   templateUrl: './forgot-password.html'
 })
-export class ForgotPasswordComponent {}
+export class ForgotPasswordComponent implements OnInit {
+  private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly flow = inject(PasswordResetFlowService);
+  private readonly translateService = inject(TranslateService);
+
+  // Reactive state
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal('');
+  readonly step = this.flow.step;
+  readonly email = this.flow.email;
+
+  // Resend cooldown countdown
+  private readonly now = signal(Date.now());
+  readonly resendSecondsLeft = computed(() =>
+    Math.max(0, Math.ceil((this.flow.resendAvailableAt() - this.now()) / 1000))
+  );
+
+  // Forms
+  readonly emailForm: FormGroup = this.fb.group({
+    email: [this.flow.email(), [Validators.required, Validators.email]]
+  });
+
+  readonly codeForm: FormGroup = this.fb.group({
+    resetCode: ['', [Validators.required, Validators.pattern(/^\d{6}$/)]]
+  });
+
+  ngOnInit(): void {
+    // Code already verified (e.g. page refresh) - continue with the new password
+    if (this.step() === 'password') {
+      this.router.navigate(['/auth/reset-password']);
+      return;
+    }
+
+    const ticker = setInterval(() => this.now.set(Date.now()), 1000);
+    this.destroyRef.onDestroy(() => clearInterval(ticker));
+  }
+
+  /**
+   * Check if field is invalid and touched
+   */
+  isFieldInvalid(form: FormGroup, fieldName: string): boolean {
+    const field = form.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Step 1: request a reset code
+   */
+  submitEmail(): void {
+    if (this.emailForm.invalid) {
+      this.emailForm.markAllAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+
+    const email = this.emailForm.value.email.trim().toLowerCase();
+
+    this.flow.requestCode(email).subscribe({
+      next: () => {
+        this.isLoading.set(false);
+        this.now.set(Date.now());
+        this.codeForm.reset();
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.errorMessage.set(error?.message || this.translateService.instant('AUTH.FORGOT_PASSWORD.ERRORS.SEND_FAILED'));
+      }
+    });
+  }
+
+  /**
+   * Step 2: verify the code and continue to the new password
+   */
+  submitCode(): void {
+    if (this.codeForm.invalid) {
+      this.codeForm.markAllAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+
+    this.flow.verifyCode(this.codeForm.value.resetCode).subscribe({
+      next: () => {
+        this.isLoading.set(false);
+        this.router.navigate(['/auth/reset-password']);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.errorMessage.set(error?.message || this.translateService.instant('AUTH.FORGOT_PASSWORD.ERRORS.VERIFY_FAILED'));
+      }
+    });
+  }
+
+  /**
+   * Send a new code once the cooldown is over
+   */
+  resendCode(): void {
+    if (this.resendSecondsLeft() > 0 || this.isLoading()) return;
+
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+
+    this.flow.resendCode().subscribe({
+      next: () => {
+        this.isLoading.set(false);
+        this.now.set(Date.now());
+        this.codeForm.reset();
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.errorMessage.set(error?.message || this.translateService.instant('AUTH.FORGOT_PASSWORD.ERRORS.SEND_FAILED'));
+      }
+    });
+  }
+
+  /**
+   * Go back to step 1 with a different email
+   */
+  changeEmail(): void {
+    this.flow.clear();
+    this.errorMessage.set('');
+    this.codeForm.reset();
+  }
+}
@@ -104,7 +104,10 @@ export class LoginComponent {
       password: this.loginForm.value.password
     };
 
-    this.authService.login(credentials).subscribe({
+    // "Keep me signed in" unchecked: the session lives in sessionStorage and ends with the browser
+    const persistence = this.loginForm.value.rememberMe ? 'local' : 'session';
+
+    this.authService.login(credentials, persistence).subscribe({
       next: (response) => {
         this.isLoading.set(false);
         this.successMessage.set('Login successful! Redirecting...');
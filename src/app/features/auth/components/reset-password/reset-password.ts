@@ -1,19 +1,115 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Router, RouterModule } from '@angular/router';
+
+// PrimeNG Imports
 import { CardModule } from 'primeng/card';
+import { PasswordModule } from 'primeng/password';
 import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
 
 // Translation
-import { TranslateModule } from '@ngx-translate/core';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+import { AuthService } from '../../services/auth';
+import { PasswordResetFlowService } from '../../services/password-reset-flow';
+import { 
+  passwordMatchValidator, 
+  strongPasswordValidator 
+} from '../../../../shared/validators/form-validation.util';
 
 /**
- * Reset Password Component (Placeholder)
- * TODO: Implement reset password functionality in future task
+ * Reset Password Component
+ * Step 3 of the password reset flow: new password for a verified reset code
+ * On success the user is signed in with the returned token
  */
 @Component({
   selector: 'app-reset-password',
-  imports: [CommonModule, RouterModule, CardModule, ButtonModule, TranslateModule],
+  imports: [
+    CommonModule,
+    RouterModule,
+    ReactiveFormsModule,
+    // PrimeNG Components
+    CardModule,
+    PasswordModule,
+    ButtonModule,
+    MessageModule,
+    // Translation
+    TranslateModule
+  ],
   templateUrl: './reset-password.html'
 })
-export class ResetPasswordComponent {}
+export class ResetPasswordComponent implements OnInit {
+  private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly authService = inject(AuthService);
+  private readonly flow = inject(PasswordResetFlowService);
+  private readonly translateService = inject(TranslateService);
+
+  // Reactive state
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal('');
+  readonly successMessage = signal('');
+  readonly email = this.flow.email;
+
+  // Form setup
+  readonly resetForm: FormGroup = this.fb.group({
+    newPassword: ['', [
+      Validators.required,
+      Validators.minLength(8),
+      strongPasswordValidator()
+    ]],
+    rePassword: ['', [
+      Validators.required
+    ]]
+  }, {
+    validators: passwordMatchValidator('newPassword', 'rePassword')
+  });
+
+  ngOnInit(): void {
+    // Only reachable with a verified reset code
+    if (this.flow.step() !== 'password') {
+      this.router.navigate(['/auth/forgot-password']);
+    }
+  }
+
+  /**
+   * Check if field is invalid and touched
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.resetForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handle form submission
+   */
+  onSubmit(): void {
+    if (this.resetForm.invalid) {
+      this.resetForm.markAllAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+    this.successMessage.set('');
+
+    this.flow.resetPassword(this.resetForm.value.newPassword).subscribe({
+      next: () => {
+        this.isLoading.set(false);
+        this.successMessage.set(this.translateService.instant('AUTH.RESET_PASSWORD.SUCCESS'));
+
+        // Redirect after short delay
+        setTimeout(() => this.authService.handleAuthRedirect(), 1000);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.errorMessage.set(
+          error?.message || this.translateService.instant('AUTH.RESET_PASSWORD.ERRORS.RESET_FAILED')
+        );
+        console.error('Reset password error:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { Component, computed, effect, inject, signal } from '@angular/core';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { PasswordModule } from 'primeng/password';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+
+// Translation
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+import { AuthService } from '../../services/auth';
+import { SessionMonitorService } from '../../../../core/services/session-monitor';
+import { ApiError } from '../../../../core/models/api-response.model';
+
+/**
+ * Session Expiry Dialog Component
+ * Shown by SessionMonitorService shortly before the JWT expires
+ * Lets the user sign in again (password only) or log out right away
+ * Rendered once in MainLayout
+ */
+@Component({
+  selector: 'app-session-expiry-dialog',
+  imports: [
+    ReactiveFormsModule,
+    // PrimeNG Components
+    DialogModule,
+    PasswordModule,
+    ButtonModule,
+    MessageModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './session-expiry-dialog.html'
+})
+export class SessionExpiryDialogComponent {
+  private readonly authService = inject(AuthService);
+  private readonly sessionMonitor = inject(SessionMonitorService);
+  private readonly translateService = inject(TranslateService);
+
+  readonly visible = this.sessionMonitor.warningVisible;
+  readonly isLoading = signal(false);
+  readonly errorMessage = signal('');
+
+  readonly form = new FormGroup({
+    password: new FormControl('', { nonNullable: true, validators: [Validators.required] })
+  });
+  readonly password = this.form.controls.password;
+
+  /** Countdown as m:ss */
+  readonly remainingTime = computed(() => {
+    const totalSeconds = Math.ceil(this.sessionMonitor.remainingMs() / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  });
+
+  constructor() {
+    // Start from a clean form every time the warning opens
+    effect(() => {
+      if (this.visible()) {
+        this.form.reset();
+        this.errorMessage.set('');
+      }
+    });
+  }
+
+  /**
+   * Sign in again with the current email and entered password
+   */
+  staySignedIn(): void {
+    if (this.password.invalid) {
+      this.password.markAsTouched();
+      return;
+    }
+
+    this.isLoading.set(true);
+    this.errorMessage.set('');
+
+    this.authService.reauthenticate(this.password.value).subscribe({
+      next: () => this.isLoading.set(false),
+      error: (error: ApiError) => {
+        this.isLoading.set(false);
+        // ApiService reports every 401 as "Authentication required" - here it means a wrong password
+        this.errorMessage.set(error?.status === 401
+          ? this.translateService.instant('AUTH.SESSION.WRONG_PASSWORD')
+          : error?.message || this.translateService.instant('AUTH.SESSION.SIGNIN_FAILED'));
+      }
+    });
+  }
+
+  /**
+   * End the session now
+   */
+  logout(): void {
+    this.authService.logout();
+  }
+}
@@ -1,9 +1,12 @@
 import { Injectable, inject } from '@angular/core';
-import { Observable, BehaviorSubject, tap, catchError } from 'rxjs';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Observable, BehaviorSubject, tap, map, catchError, throwError, filter, take, finalize } from 'rxjs';
 import { Router } from '@angular/router';
 
 import { ApiService } from '../../../core/services/api';
 import { StorageService } from '../../../core/services/storage';
+import { SessionMonitorService } from '../../../core/services/session-monitor';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
 import { AUTH_ENDPOINTS } from '../../../core/constants/api-endpoints.const';
 import {
   LoginCredentials,
@@ -15,7 +18,15 @@ import {
   ChangePasswordRequest,
   UpdateProfileRequest
 } from '../../../core/models/user.model';
-import { AuthResponse } from '../../../core/models/api-response.model';
+import { ApiError, AuthResponse, VerifyTokenResponse } from '../../../core/models/api-response.model';
+import { StoragePersistence } from '../../../core/models/storage.model';
+import { CrossTabMessageType, CrossTabSession } from '../../../core/models/cross-tab.model';
+import {
+  authResponseSchema,
+  resetPasswordResponseSchema,
+  verifyTokenResponseSchema
+} from '../../../core/models/api-response.schema';
+import { decodeJwt, isTokenExpired } from '../../../shared/utils/jwt.utils';
 
 /**
  * Authentication Service
@@ -29,6 +40,8 @@ export class AuthService {
   private readonly api = inject(ApiService);
   private readonly storage = inject(StorageService);
   private readonly router = inject(Router);
+  private readonly sessionMonitor = inject(SessionMonitorService);
+  private readonly crossTabSync = inject(CrossTabSyncService);
 
   // Authentication state management
   private readonly _currentUser = new BehaviorSubject<User | null>(null);
@@ -37,20 +50,37 @@ export class AuthService {
   private readonly _isAuthenticated = new BehaviorSubject<boolean>(false);
   public readonly isAuthenticated$ = this._isAuthenticated.asObservable();
 
+  // True once the stored token has been verified with the API (or there is none)
+  private readonly _authReady = new BehaviorSubject<boolean>(false);
+  public readonly authReady = toSignal(this._authReady, { requireSync: true });
+
+  // True while a session change received from another tab is being applied
+  private applyingRemoteChange = false;
+
   constructor() {
     this.initializeAuthState();
+    this.listenToOtherTabs();
   }
 
   /**
    * Initialize authentication state from storage
+   * An expired token is dropped here, before the first API call can send it
    */
   private initializeAuthState(): void {
+    const token = this.storage.getToken();
+
+    if (token && isTokenExpired(token)) {
+      this.storage.logout();
+      return;
+    }
+
     const userData = this.storage.getUserData();
     const isAuth = this.storage.isAuthenticated();
     
     if (userData && isAuth) {
       this._currentUser.next(userData);
       this._isAuthenticated.next(true);
+      this.startSessionMonitor();
     }
   }
 
@@ -61,7 +91,7 @@ export class AuthService {
    * API: POST /auth/signup
    */
   register(registerData: RegisterRequest): Observable<AuthResponse> {
-    return this.api.post<AuthResponse>(AUTH_ENDPOINTS.SIGNUP, registerData, { requiresAuth: false })
+    return this.api.post<AuthResponse>(AUTH_ENDPOINTS.SIGNUP, registerData, { requiresAuth: false, schema: authResponseSchema })
       .pipe(
         tap(response => this.handleAuthSuccess(response)),
         catchError(error => {
@@ -76,11 +106,13 @@ export class AuthService {
   /**
    * Login user
    * API: POST /auth/signin
+   * @param persistence - 'local' keeps the user signed in, 'session' ends the session with the browser
+   *                      (omitted: keep the current choice, e.g. when re-authenticating)
    */
-  login(credentials: LoginCredentials): Observable<AuthResponse> {
-    return this.api.post<AuthResponse>(AUTH_ENDPOINTS.SIGNIN, credentials, { requiresAuth: false })
+  login(credentials: LoginCredentials, persistence?: StoragePersistence): Observable<AuthResponse> {
+    return this.api.post<AuthResponse>(AUTH_ENDPOINTS.SIGNIN, credentials, { requiresAuth: false, schema: authResponseSchema })
       .pipe(
-        tap(response => this.handleAuthSuccess(response)),
+        tap(response => this.handleAuthSuccess(response, persistence)),
         catchError(error => {
           console.error('Login failed:', error);
           throw error;
@@ -95,14 +127,193 @@ export class AuthService {
    * Clears local storage and resets state
    */
   logout(): void {
-    this.storage.logout();
-    this._currentUser.next(null);
-    this._isAuthenticated.next(false);
+    this.clearSession();
+    this.crossTabSync.publish('auth:logout');
     
     // Redirect to home page
     this.router.navigate(['/']);
   }
 
+  // ===== SESSION =====
+
+  /**
+   * End an expired or revoked session (401 from the API)
+   * Clears local storage and resets state, then sends the user to login
+   * with a return URL so they land back where they were
+   */
+  expireSession(returnUrl: string): void {
+    this.clearSession();
+    this.crossTabSync.publish('auth:logout');
+
+    if (!returnUrl.startsWith('/auth')) {
+      this.navigateToLogin(returnUrl);
+    }
+  }
+
+  /**
+   * Verify the stored token with the API (app initializer, before the first navigation)
+   * - Valid: user data is refreshed from the token claims (name, role)
+   * - Rejected (401): the session is cleared before any guard or store relies on it
+   * - Network failure: the stored session is kept
+   * authReady turns true once this settles
+   */
+  verifySession(): void {
+    if (!this.storage.isAuthenticated()) {
+      this._authReady.next(true);
+      return;
+    }
+
+    this.verifyToken().pipe(
+      finalize(() => this._authReady.next(true))
+    ).subscribe({
+      next: ({ decoded }) => {
+        const userData = this.storage.getUserData();
+        if (!userData) return;
+
+        const user: User = { ...userData, name: decoded.name, role: decoded.role as User['role'] };
+        this.storage.setUserData(user);
+        this._currentUser.next(user);
+      },
+      error: (error: ApiError) => {
+        if (error.status === 401) {
+          this.clearSession();
+          this.crossTabSync.publish('auth:logout');
+        }
+      }
+    });
+  }
+
+  /**
+   * Emits once auth is ready (see verifySession)
+   * Awaited by authGuard, roleGuard, guestGuard, CartStore and WishlistStore
+   */
+  whenAuthReady(): Observable<void> {
+    return this._authReady.pipe(
+      filter(Boolean),
+      take(1),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Re-authenticate the current user before the session expires
+   * Signs in again with the stored email - a fresh token restarts the session monitor
+   */
+  reauthenticate(password: string): Observable<AuthResponse> {
+    const email = this.getCurrentUser()?.email;
+
+    if (!email) {
+      return throwError(() => new Error('No active session to renew'));
+    }
+
+    return this.login({ email, password });
+  }
+
+  /**
+   * Whether the current auth state change was received from another tab
+   * Lets stores reload instead of syncing (the originating tab already synced)
+   */
+  isAuthChangeFromOtherTab(): boolean {
+    return this.applyingRemoteChange;
+  }
+
+  /**
+   * Follow session changes made in other tabs
+   * - login / token refresh: re-read token and user data from storage
+   *   (sessionStorage-only sessions arrive with the message and are copied first)
+   * - logout: clear this tab's state so it stops sending the stale token
+   * - A tab opened without a session asks the others for a sessionStorage-only session
+   */
+  private listenToOtherTabs(): void {
+    this.crossTabSync.on('auth:login', 'auth:token-refreshed', 'session:share').subscribe(message => {
+      if (message.type === 'session:share' && this.storage.isAuthenticated()) return;
+
+      if (message.session) {
+        this.storage.setPersistence('session');
+        this.storage.setToken(message.session.token);
+        this.storage.setUserData(message.session.user);
+      }
+
+      this.applyRemoteChange(() => {
+        if (!this.storage.isAuthenticated()) {
+          this.clearRemoteSession();
+          return;
+        }
+
+        this._currentUser.next(this.storage.getUserData());
+        if (!this._isAuthenticated.value) {
+          this._isAuthenticated.next(true);
+        }
+        this.startSessionMonitor();
+      });
+    });
+
+    this.crossTabSync.on('auth:logout').subscribe(() => {
+      this.applyRemoteChange(() => this.clearRemoteSession());
+    });
+
+    this.crossTabSync.on('session:request').subscribe(() => {
+      const session = this.getSessionToShare();
+      if (session) {
+        this.crossTabSync.publish('session:share', session);
+      }
+    });
+
+    if (!this.storage.isAuthenticated()) {
+      this.crossTabSync.publish('session:request');
+    }
+  }
+
+  /**
+   * Apply a session change received from another tab
+   * Auth state emitted meanwhile is flagged by isAuthChangeFromOtherTab()
+   */
+  private applyRemoteChange(apply: () => void): void {
+    this.applyingRemoteChange = true;
+    apply();
+    this.applyingRemoteChange = false;
+  }
+
+  /**
+   * Session ended in another tab - clear it here too
+   */
+  private clearRemoteSession(): void {
+    const wasAuthenticated = this._isAuthenticated.value;
+    this.clearSession();
+
+    if (wasAuthenticated) {
+      this.router.navigate(['/']);
+    }
+  }
+
+  /**
+   * Tell other tabs about a new or refreshed session
+   * sessionStorage is per tab, so sessionStorage-only sessions are sent along
+   */
+  private publishSession(type: Extract<CrossTabMessageType, 'auth:login' | 'auth:token-refreshed'>): void {
+    this.crossTabSync.publish(type, this.getSessionToShare() ?? undefined);
+  }
+
+  /**
+   * Current session, if it lives in sessionStorage (localStorage is already shared)
+   */
+  private getSessionToShare(): CrossTabSession | null {
+    const token = this.storage.getToken();
+    const user = this.storage.getUserData();
+
+    return this.storage.getPersistence() === 'session' && token && user ? { token, user } : null;
+  }
+
+  /**
+   * Reset session state (monitor, storage and reactive state)
+   */
+  private clearSession(): void {
+    this.sessionMonitor.stop();
+    this.storage.logout();
+    this._currentUser.next(null);
+    this._isAuthenticated.next(false);
+  }
+
   // ===== PASSWORD RECOVERY =====
 
   /**
@@ -122,14 +333,23 @@ export class AuthService {
   }
 
   /**
-   * Reset password
+   * Reset password and sign in with the returned token
    * API: PUT /auth/resetPassword
+   * ⚠️ The API returns only { token } here - user data is rebuilt from the JWT payload
    */
   resetPassword(passwordData: PasswordReset): Observable<AuthResponse> {
-    return this.api.put<AuthResponse>(AUTH_ENDPOINTS.RESET_PASSWORD, passwordData, { requiresAuth: false })
-      .pipe(
-        tap(response => this.handleAuthSuccess(response))
-      );
+    return this.api.put<Partial<AuthResponse> & { token: string }>(
+      AUTH_ENDPOINTS.RESET_PASSWORD,
+      passwordData,
+      { requiresAuth: false, schema: resetPasswordResponseSchema }
+    ).pipe(
+      map(response => ({
+        message: response.message ?? 'success',
+        token: response.token,
+        user: response.user ?? this.userFromToken(response.token, passwordData.email)
+      })),
+      tap(response => this.handleAuthSuccess(response))
+    );
   }
 
   // ===== PROFILE MANAGEMENT =====
@@ -144,6 +364,8 @@ export class AuthService {
         tap(response => {
           // Update token after password change
           this.storage.setToken(response.token);
+          this.startSessionMonitor();
+          this.publishSession('auth:token-refreshed');
         })
       );
   }
@@ -159,6 +381,7 @@ export class AuthService {
           // Update stored user data
           this.storage.setUserData(response.user);
           this._currentUser.next(response.user);
+          this.publishSession('auth:token-refreshed');
         })
       );
   }
@@ -166,17 +389,27 @@ export class AuthService {
   /**
    * Verify token validity
    * API: GET /auth/verifyToken
+   * Errors are handled by the caller (no toast, no 401 auto-logout)
    */
-  verifyToken(): Observable<{ message: string; user: User }> {
-    return this.api.get<{ message: string; user: User }>(AUTH_ENDPOINTS.VERIFY_TOKEN);
+  verifyToken(): Observable<VerifyTokenResponse> {
+    return this.api.get<VerifyTokenResponse>(AUTH_ENDPOINTS.VERIFY_TOKEN, undefined, {
+      schema: verifyTokenResponseSchema,
+      skipErrorHandler: true,
+      background: true
+    });
   }
 
   // ===== UTILITY METHODS =====
 
   /**
    * Handle successful authentication response
+   * @param persistence - Where to keep the session (omitted: keep the current choice)
    */
-  private handleAuthSuccess(response: AuthResponse): void {
+  private handleAuthSuccess(response: AuthResponse, persistence?: StoragePersistence): void {
+    if (persistence) {
+      this.storage.setPersistence(persistence);
+    }
+
     // Store token and user data
     this.storage.setToken(response.token);
     
@@ -194,6 +427,35 @@ export class AuthService {
     // Update reactive state
     this._currentUser.next(userData);
     this._isAuthenticated.next(true);
+
+    this.startSessionMonitor();
+    this.publishSession('auth:login');
+  }
+
+  /**
+   * Watch the current token's expiry
+   * At expiry the session ends like a 401: back to login with the current URL as returnUrl
+   * (the guest cart in localStorage is left untouched)
+   */
+  private startSessionMonitor(): void {
+    const token = this.storage.getToken();
+
+    if (token) {
+      this.sessionMonitor.start(token, () => this.expireSession(this.router.url));
+    }
+  }
+
+  /**
+   * Build auth response user data from a JWT (name and role claims)
+   */
+  private userFromToken(token: string, email: string): AuthResponse['user'] {
+    const payload = decodeJwt(token);
+
+    return {
+      name: payload?.name ?? '',
+      email,
+      role: payload?.role ?? 'user'
+    };
   }
 
   /**
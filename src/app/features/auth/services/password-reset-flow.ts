@@ -0,0 +1,104 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { Observable, map, tap } from 'rxjs';
+
+import { AuthService } from './auth';
+import { StorageService } from '../../../core/services/storage';
+import { STORAGE_KEYS } from '../../../core/constants/api-endpoints.const';
+import { AuthResponse } from '../../../core/models/api-response.model';
+import { PasswordResetFlowState, PasswordResetStep } from '../../../core/models/user.model';
+
+/**
+ * Password Reset Flow Service
+ * Drives the forgot-password → verify-code → reset-password flow
+ * (ForgotPasswordComponent handles email + code, ResetPasswordComponent the new password)
+ *
+ * State is persisted in storage so a page refresh resumes the current step.
+ * It expires together with the reset code (10 minutes after the last code email).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PasswordResetFlowService {
+  private readonly authService = inject(AuthService);
+  private readonly storage = inject(StorageService);
+
+  private readonly RESEND_COOLDOWN_MS = 60 * 1000;       // 1 minute between code emails
+  private readonly FLOW_MAX_AGE_MS = 10 * 60 * 1000;     // Reset codes are valid for 10 minutes
+
+  private readonly _state = signal<PasswordResetFlowState | null>(this.restore());
+
+  readonly email = computed(() => this._state()?.email ?? '');
+  readonly step = computed<PasswordResetStep>(() => this._state()?.step ?? 'email');
+  readonly resendAvailableAt = computed(() => (this._state()?.codeSentAt ?? 0) + this.RESEND_COOLDOWN_MS);
+
+  /**
+   * Step 1: send a reset code to the email address
+   * API: POST /auth/forgotPasswords
+   */
+  requestCode(email: string): Observable<void> {
+    return this.authService.forgotPassword({ email }).pipe(
+      tap(() => this.save({ email, step: 'code', codeSentAt: Date.now() })),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Step 2 (again): send a new code to the same email (subject to the cooldown)
+   */
+  resendCode(): Observable<void> {
+    return this.requestCode(this.email());
+  }
+
+  /**
+   * Step 2: verify the 6-digit code
+   * API: POST /auth/verifyResetCode
+   */
+  verifyCode(resetCode: string): Observable<void> {
+    return this.authService.verifyResetCode({ resetCode }).pipe(
+      tap(() => {
+        const state = this._state();
+        if (state) {
+          this.save({ ...state, step: 'password' });
+        }
+      }),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Step 3: set the new password - signs the user in and ends the flow
+   * API: PUT /auth/resetPassword
+   */
+  resetPassword(newPassword: string): Observable<AuthResponse> {
+    return this.authService.resetPassword({ email: this.email(), newPassword }).pipe(
+      tap(() => this.clear())
+    );
+  }
+
+  /**
+   * Abandon the flow (e.g. "use a different email")
+   */
+  clear(): void {
+    this._state.set(null);
+    this.storage.removeItem(STORAGE_KEYS.PASSWORD_RESET);
+  }
+
+  private save(state: PasswordResetFlowState): void {
+    this._state.set(state);
+    this.storage.setItem(STORAGE_KEYS.PASSWORD_RESET, state);
+  }
+
+  /**
+   * Restore a persisted flow, dropping it once the reset code has expired
+   */
+  private restore(): PasswordResetFlowState | null {
+    const state = this.storage.getItem<PasswordResetFlowState>(STORAGE_KEYS.PASSWORD_RESET);
+
+    if (!state || Date.now() - state.codeSentAt > this.FLOW_MAX_AGE_MS) {
+      this.storage.removeItem(STORAGE_KEYS.PASSWORD_RESET);
+      return null;
+    }
+
+    return state;
+  }
+}
@@ -8,6 +8,12 @@ export const cartRoutes: Routes = [
     loadComponent: () => import('./components/cart-page/cart-page').then(c => c.CartPage),
     title: 'Shopping Cart - FreshCart'
   },
+  // Cart import page - Preview a share link or imported cart file
+  {
+    path: 'import',
+    loadComponent: () => import('./components/cart-import-page/cart-import-page').then(c => c.CartImportPage),
+    title: 'Import Cart - FreshCart'
+  },
   // Cart checkout page - Requires authentication
   {
     path: 'checkout',
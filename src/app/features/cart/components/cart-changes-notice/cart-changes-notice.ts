@@ -0,0 +1,74 @@
+import { ChangeDetectionStrategy, Component, computed, effect, inject, untracked } from '@angular/core';
+
+// PrimeNG Imports
+import { ButtonModule } from 'primeng/button';
+
+// Translation
+import { TranslateModule } from '@ngx-translate/core';
+
+import { CartStore } from '../../store/cart.store';
+import { CartLineChange } from '../../models/cart.model';
+import { CurrencyService } from '../../../../core/services/currency';
+
+/**
+ * Cart Changes Notice Component
+ * Re-checks the cart against current stock and prices once it has loaded (CartStore.reconcileCart)
+ * and lists what changed until the user acknowledges it
+ * Used by the cart page and the checkout page - checkout stays blocked meanwhile (CartStore.canCheckout)
+ */
+@Component({
+  selector: 'app-cart-changes-notice',
+  imports: [
+    // PrimeNG Components
+    ButtonModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './cart-changes-notice.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CartChangesNoticeComponent {
+  private readonly cartStore = inject(CartStore);
+  private readonly currencyService = inject(CurrencyService);
+
+  readonly changes = this.cartStore.lineChanges;
+  readonly hasOutOfStockItems = this.cartStore.hasOutOfStockItems;
+  readonly visible = computed(() => this.changes().length > 0 || this.hasOutOfStockItems());
+
+  private readonly cartReady = computed(() => 
+    !this.cartStore.isLoading() && 
+    !this.cartStore.isSyncing() && 
+    this.cartStore.items().length > 0
+  );
+  private reconciled = false;
+
+  constructor() {
+    // Re-check once per page visit - cart writes don't trigger another round of product reads
+    effect(() => {
+      if (this.cartReady() && !this.reconciled) {
+        this.reconciled = true;
+        untracked(() => this.cartStore.reconcileCart());
+      }
+    });
+  }
+
+  isPriceUp(change: CartLineChange): boolean {
+    return change.price > change.previousPrice;
+  }
+
+  isPriceDown(change: CartLineChange): boolean {
+    return change.price < change.previousPrice;
+  }
+
+  isQuantityReduced(change: CartLineChange): boolean {
+    return change.quantity < change.previousQuantity;
+  }
+
+  acknowledge(): void {
+    this.cartStore.acknowledgeCartChanges();
+  }
+
+  formatPrice(price: number): string {
+    return this.currencyService.format(price);
+  }
+}
@@ -0,0 +1,118 @@
+import { Component, inject, signal, computed, ChangeDetectionStrategy } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { switchMap, tap } from 'rxjs';
+
+// PrimeNG Imports
+import { CardModule } from 'primeng/card';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { SkeletonModule } from 'primeng/skeleton';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { TagModule } from 'primeng/tag';
+
+// Translation
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+// Feature Imports
+import { CartStore } from '../../store/cart.store';
+import { CartShareService } from '../../services/cart-share.service';
+import { CartImportLine, CartImportMode } from '../../models/cart.model';
+import { CART_IMPORT_MODES } from '../../constants/cart-import-modes.const';
+import { CurrencyService } from '../../../../core/services/currency';
+import { I18nService } from '../../../../core/services/i18n';
+
+/**
+ * Cart Import Page
+ * Opened from a share link (/cart/import?items=...) or an imported cart file
+ * Previews the shared lines with current prices and stock, then adds them to the cart (merge or replace)
+ */
+@Component({
+  selector: 'app-cart-import-page',
+  imports: [
+    FormsModule,
+    RouterModule,
+    // PrimeNG
+    CardModule,
+    ButtonModule,
+    MessageModule,
+    SkeletonModule,
+    SelectButtonModule,
+    TagModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './cart-import-page.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CartImportPage {
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly cartStore = inject(CartStore);
+  private readonly cartShareService = inject(CartShareService);
+  private readonly currencyService = inject(CurrencyService);
+  private readonly translateService = inject(TranslateService);
+  private readonly i18nService = inject(I18nService);
+
+  // Component state
+  readonly lines = signal<CartImportLine[]>([]);
+  readonly loading = signal(true);
+  readonly mode = signal<CartImportMode>('merge');
+
+  // Computed properties
+  readonly availableLines = computed(() => this.lines().filter(line => line.product && line.quantity > 0));
+  readonly unavailableCount = computed(() => this.lines().length - this.availableLines().length);
+  readonly hasCartItems = computed(() => this.cartStore.items().length > 0);
+  readonly previewTotal = computed(() => 
+    this.availableLines().reduce((sum, line) => sum + this.unitPrice(line) * line.quantity, 0)
+  );
+
+  readonly modeOptions = computed(() => {
+    // Include currentLanguage in the computed to create reactive dependency
+    this.i18nService.currentLanguage();
+    return CART_IMPORT_MODES.map(option => ({
+      label: this.translateService.instant(option.labelKey),
+      value: option.value
+    }));
+  });
+
+  constructor() {
+    this.route.queryParamMap
+      .pipe(
+        tap(() => this.loading.set(true)),
+        switchMap(params => this.cartShareService.loadPreview(
+          this.cartShareService.parseShareCode(params.get(this.cartShareService.SHARE_PARAM))
+        )),
+        takeUntilDestroyed()
+      )
+      .subscribe(lines => {
+        this.lines.set(lines);
+        this.loading.set(false);
+      });
+  }
+
+  /**
+   * Current unit price of a previewed line (discounted when available)
+   */
+  unitPrice(line: CartImportLine): number {
+    return line.product ? line.product.priceAfterDiscount || line.product.price : 0;
+  }
+
+  setMode(mode: CartImportMode | null): void {
+    // SelectButton emits null when the active option is clicked again
+    if (mode) this.mode.set(mode);
+  }
+
+  /**
+   * Add the available lines to the cart and open it
+   */
+  importCart(): void {
+    this.cartStore.importCart({ lines: this.availableLines(), mode: this.mode() });
+    this.router.navigate(['/cart']);
+  }
+
+  formatPrice(price: number): string {
+    return this.currencyService.format(price);
+  }
+}
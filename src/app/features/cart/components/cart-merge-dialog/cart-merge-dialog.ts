@@ -0,0 +1,106 @@
+import { ChangeDetectionStrategy, Component, computed, effect, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+// PrimeNG Imports
+import { DialogModule } from 'primeng/dialog';
+import { SelectButtonModule } from 'primeng/selectbutton';
+import { ButtonModule } from 'primeng/button';
+
+// Translation
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+
+import { CartStore } from '../../store/cart.store';
+import { I18nService } from '../../../../core/services/i18n';
+import { CartMergeChoice, CartMergeConflict } from '../../models/cart.model';
+import { CART_MERGE_OPTIONS } from '../../constants/cart-merge-options.const';
+import { resolveCartMergeConflict } from '../../../../shared/utils/cart.utils';
+
+/**
+ * Cart Merge Dialog Component
+ * Shown after login (or a refresh during the login sync) when guest cart products are already in the user's server cart
+ * One choice per product (keep both / keep account / keep this device), applied through CartStore.resolveMerge
+ * Rendered once in MainLayout
+ */
+@Component({
+  selector: 'app-cart-merge-dialog',
+  imports: [
+    FormsModule,
+    // PrimeNG Components
+    DialogModule,
+    SelectButtonModule,
+    ButtonModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './cart-merge-dialog.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CartMergeDialogComponent {
+  private readonly cartStore = inject(CartStore);
+  private readonly translateService = inject(TranslateService);
+  private readonly i18nService = inject(I18nService);
+
+  readonly conflicts = this.cartStore.mergeConflicts;
+  readonly visible = computed(() => this.conflicts().length > 0);
+
+  /** Choice by product ID */
+  readonly choices = signal<Record<string, CartMergeChoice>>({});
+
+  readonly options = computed(() => {
+    // Include currentLanguage in the computed to create reactive dependency
+    this.i18nService.currentLanguage();
+    return CART_MERGE_OPTIONS.map(option => ({
+      label: this.translateService.instant(option.labelKey),
+      value: option.value
+    }));
+  });
+
+  constructor() {
+    // Every conflict starts as "keep both" - the closest to the previous automatic sync
+    effect(() => {
+      const choices: Record<string, CartMergeChoice> = {};
+      this.conflicts().forEach(conflict => choices[conflict.product._id] = 'both');
+      this.choices.set(choices);
+    });
+  }
+
+  /**
+   * Choice currently selected for a conflict
+   */
+  choiceFor(conflict: CartMergeConflict): CartMergeChoice {
+    return this.choices()[conflict.product._id] ?? 'both';
+  }
+
+  /**
+   * Quantity the product will have after merging with the current choice
+   */
+  resultQuantity(conflict: CartMergeConflict): number {
+    return resolveCartMergeConflict(conflict, this.choiceFor(conflict)).count;
+  }
+
+  setChoice(productId: string, choice: CartMergeChoice | null): void {
+    // SelectButton emits null when the active option is clicked again
+    if (!choice) return;
+    this.choices.update(choices => ({ ...choices, [productId]: choice }));
+  }
+
+  /**
+   * Apply the same choice to every conflicting product
+   */
+  chooseForAll(choice: CartMergeChoice): void {
+    const choices: Record<string, CartMergeChoice> = {};
+    this.conflicts().forEach(conflict => choices[conflict.product._id] = choice);
+    this.choices.set(choices);
+  }
+
+  apply(): void {
+    this.cartStore.resolveMerge(this.choices());
+  }
+
+  /**
+   * Close without choosing - conflicting products keep their account quantity
+   */
+  dismiss(): void {
+    this.cartStore.dismissMerge();
+  }
+}
@@ -10,6 +10,7 @@ import { DividerModule } from 'primeng/divider';
 import { MessageModule } from 'primeng/message';
 import { SkeletonModule } from 'primeng/skeleton';
 import { TagModule } from 'primeng/tag';
+import { TooltipModule } from 'primeng/tooltip';
 import { MessageService } from 'primeng/api';
 
 // Translation
@@ -17,15 +18,25 @@ import { TranslatePipe } from '@ngx-translate/core';
 
 // Feature Imports
 import { CartStore } from '../../store/cart.store';
-import { CartItem } from '../../models/cart.model';
+import { SavedForLaterStore } from '../../store/saved-for-later.store';
+import { CartShareService } from '../../services/cart-share.service';
+import { CartItem, SavedCartItem } from '../../models/cart.model';
 import { AuthService } from '../../../auth/services/auth';
 
+// Sub-components
+import { CouponInputComponent } from '../coupon-input/coupon-input';
+import { CartChangesNoticeComponent } from '../cart-changes-notice/cart-changes-notice';
+import { DeliveryEstimateComponent } from '../delivery-estimate/delivery-estimate';
+
 // Shared Utilities
-import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shared/utils/cart.utils';
+import { CART_UNDO_TOAST_KEY, CART_UNDO_WINDOW_MS } from '../../constants/cart-undo.const';
+import { getProductImageUrl, trackCartItem } from '../../../../shared/utils/cart.utils';
+import { CurrencyService } from '../../../../core/services/currency';
 
 /**
  * Shopping Cart Page Component
  * Displays cart items, allows quantity updates, and provides checkout functionality
+ * Items can be parked in a "saved for later" section (SavedForLaterStore)
  */
 @Component({
   selector: 'app-cart-page',
@@ -39,8 +50,13 @@ import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shar
     MessageModule,
     SkeletonModule,
     TagModule,
+    TooltipModule,
     // Translation
-    TranslatePipe
+    TranslatePipe,
+    // Sub-components
+    CouponInputComponent,
+    CartChangesNoticeComponent,
+    DeliveryEstimateComponent
   ],
   templateUrl: './cart-page.html',
   // ✅ No custom styles needed - using PrimeNG + Tailwind CSS
@@ -50,8 +66,11 @@ import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shar
 export class CartPage {
   private readonly router = inject(Router);
   private readonly cartStore = inject(CartStore);
+  private readonly currencyService = inject(CurrencyService);
+  private readonly savedForLaterStore = inject(SavedForLaterStore);
   private readonly authService = inject(AuthService);
   private readonly messageService = inject(MessageService);
+  private readonly cartShareService = inject(CartShareService);
 
   // Cart state signals
   readonly cartItems = this.cartStore.items;
@@ -59,6 +78,13 @@ export class CartPage {
   readonly isLoading = this.cartStore.isLoading;
   readonly error = this.cartStore.error;
   readonly isOperating = this.cartStore.isOperating;
+  readonly canCheckout = this.cartStore.canCheckout;
+  readonly hasPendingQuantityUpdates = this.cartStore.hasPendingQuantityUpdates;
+
+  // Saved for later signals
+  readonly savedItems = this.savedForLaterStore.items;
+  readonly isRefreshingSaved = this.savedForLaterStore.isRefreshing;
+  readonly isSavedItemMoving = this.savedForLaterStore.isProductMoving;
 
   // Computed properties for UI
   readonly isEmpty = computed(() => this.cartItems().length === 0);
@@ -162,38 +188,119 @@ export class CartPage {
   /**
    * Remove item from cart
    * @param productId - Product ID to remove
+   * ✅ Undo toast (CartUndoToastComponent) restores the line
    */
   removeItem(productId: string): void {
-    // Find the item to show its title in the toast
-    const item = this.cartItems().find(item => item.product._id === productId);
+    const snapshot = this.cartStore.removeWithUndo(productId);
+    if (!snapshot) return;
     
-    this.cartStore.removeFromCart(productId);
+    this.messageService.add({
+      key: CART_UNDO_TOAST_KEY,
+      severity: 'success',
+      summary: 'Item Removed',
+      detail: `${snapshot.items[0].product.title} has been removed from your cart`,
+      life: CART_UNDO_WINDOW_MS,
+      data: { snapshotId: snapshot.id }
+    });
+  }
+
+  /**
+   * Move a cart line to "saved for later"
+   */
+  saveForLater(item: CartItem): void {
+    this.savedForLaterStore.saveForLater(item);
     
-    // ✅ Show success toast
-    if (item) {
-      this.messageService.add({
-        severity: 'success',
-        summary: 'Item Removed',
-        detail: `${item.product.title} has been removed from your cart`,
-        life: 3000
-      });
-    }
+    this.messageService.add({
+      severity: 'success',
+      summary: 'Saved for Later',
+      detail: `${item.product.title} has been moved to your saved items`,
+      life: 3000
+    });
+  }
+
+  /**
+   * Move a saved item back to the cart with its saved quantity
+   */
+  moveToCart(item: SavedCartItem): void {
+    this.savedForLaterStore.moveToCart(item.product._id);
+  }
+
+  /**
+   * Remove a saved item for good
+   */
+  removeSavedItem(item: SavedCartItem): void {
+    this.savedForLaterStore.removeSavedItem(item.product._id);
   }
 
   /**
    * Clear entire cart
+   * ✅ Undo toast (CartUndoToastComponent) restores the previous cart
    */
   clearCart(): void {
-    const itemCount = this.cartItems().length;
+    const snapshot = this.cartStore.clearWithUndo();
+    if (!snapshot) return;
     
-    this.cartStore.clearCart();
+    const itemCount = snapshot.items.length;
     
-    // ✅ Show success toast
     this.messageService.add({
+      key: CART_UNDO_TOAST_KEY,
       severity: 'success',
       summary: 'Cart Cleared',
       detail: `All ${itemCount} item${itemCount !== 1 ? 's' : ''} have been removed from your cart`,
-      life: 3000
+      life: CART_UNDO_WINDOW_MS,
+      data: { snapshotId: snapshot.id }
+    });
+  }
+
+  /**
+   * Copy a share link of the cart to the clipboard
+   */
+  shareCart(): void {
+    const url = this.cartShareService.buildShareUrl(this.cartItems());
+    
+    navigator.clipboard.writeText(url).then(
+      () => this.messageService.add({
+        severity: 'success',
+        summary: 'Link Copied',
+        detail: 'Anyone with this link can add these products to their cart',
+        life: 3000
+      }),
+      // Clipboard blocked (permissions / insecure context) - show the link instead
+      () => this.messageService.add({
+        severity: 'info',
+        summary: 'Share Link',
+        detail: url,
+        sticky: true
+      })
+    );
+  }
+
+  /**
+   * Download the cart as a JSON file
+   */
+  exportCart(): void {
+    this.cartShareService.exportToFile(this.cartItems());
+  }
+
+  /**
+   * Read an exported cart file and open the import preview
+   */
+  onImportFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Allow picking the same file again
+    if (!file) return;
+    
+    this.cartShareService.readExportFile(file).subscribe({
+      next: (lines) => this.router.navigate(['/cart/import'], {
+        queryParams: { [this.cartShareService.SHARE_PARAM]: this.cartShareService.toShareCode(lines) }
+      }),
+      error: (error) => this.messageService.add({
+        severity: 'error',
+        summary: 'Import Failed',
+        detail: error instanceof Error ? error.message : 'Could not read the cart file',
+        life: 5000
+      })
     });
   }
 
@@ -237,7 +344,17 @@ export class CartPage {
       return;
     }
 
-    // 3️⃣ Check if we have cartId (required for checkout API)
+    // 3️⃣ Stock and price changes must be reviewed first (sold-out lines removed)
+    if (!this.canCheckout()) {
+      this.messageService.add({
+        severity: 'warn',
+        summary: 'Review Your Cart',
+        detail: 'Some items changed since you added them. Please review your cart before checkout.'
+      });
+      return;
+    }
+
+    // 4️⃣ Check if we have cartId (required for checkout API)
     const cartId = this.cartStore.cartId();
     
     if (!cartId) {
@@ -249,7 +366,7 @@ export class CartPage {
       return;
     }
 
-    // 4️⃣ Navigate to checkout page
+    // 5️⃣ Navigate to checkout page
     this.router.navigate(['/cart/checkout']);
   }
 
@@ -262,10 +379,21 @@ export class CartPage {
 
   /**
    * Format currency for display
-   * Uses shared utility for consistent formatting
+   * Uses CurrencyService for the selected display currency
    */
   formatPrice(price: number): string {
-    return formatPrice(price);
+    return this.currencyService.format(price);
+  }
+
+  /**
+   * Stored price before the last stock and price re-check (null when unchanged)
+   * Only for lines that adopted the new price (guest carts) - server lines keep their API price
+   */
+  previousPrice(item: CartItem): number | null {
+    const change = this.cartStore.getLineChange()(item.product._id);
+    return change && change.previousPrice !== change.price && item.unitPrice === change.price
+      ? change.previousPrice
+      : null;
   }
 
   /**
@@ -0,0 +1,57 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+
+// PrimeNG Imports
+import { ToastModule } from 'primeng/toast';
+import { ButtonModule } from 'primeng/button';
+import { MessageService, ToastMessageOptions } from 'primeng/api';
+
+// Translation
+import { TranslateModule } from '@ngx-translate/core';
+
+import { CartStore } from '../../store/cart.store';
+import { CART_UNDO_TOAST_KEY } from '../../constants/cart-undo.const';
+
+/**
+ * Cart Undo Toast Component
+ * Toast channel for removals that can be undone (CartPage remove line / clear cart)
+ * Undo restores the snapshot through CartStore.undoRemoval; closing the toast discards it
+ * Rendered once in MainLayout so the undo window survives navigation
+ */
+@Component({
+  selector: 'app-cart-undo-toast',
+  imports: [
+    // PrimeNG Components
+    ToastModule,
+    ButtonModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './cart-undo-toast.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CartUndoToastComponent {
+  private readonly cartStore = inject(CartStore);
+  private readonly messageService = inject(MessageService);
+
+  readonly toastKey = CART_UNDO_TOAST_KEY;
+  readonly isUndoing = this.cartStore.isUndoing;
+
+  undo(message: ToastMessageOptions): void {
+    const snapshotId = this.snapshotIdOf(message);
+    if (!snapshotId) return;
+
+    this.cartStore.undoRemoval(snapshotId);
+    this.messageService.clear(this.toastKey);
+  }
+
+  onClose(event: { message: ToastMessageOptions }): void {
+    const snapshotId = this.snapshotIdOf(event.message);
+    if (snapshotId) {
+      this.cartStore.discardUndo(snapshotId);
+    }
+  }
+
+  private snapshotIdOf(message: ToastMessageOptions): string | undefined {
+    return (message.data as { snapshotId?: string } | undefined)?.snapshotId;
+  }
+}
@@ -59,6 +59,7 @@ export class CheckoutFormComponent implements OnInit {
   // Outputs
   readonly formValidChange = output<boolean>();
   readonly formValueChange = output<ShippingAddress>();
+  readonly cityChange = output<string | null>();          // Valid city picked (null when cleared/invalid) - drives the charge estimate
 
   // Form setup
   checkoutForm!: FormGroup;
@@ -117,6 +118,14 @@ export class CheckoutFormComponent implements OnInit {
         this.formValidChange.emit(this.checkoutForm.valid);
       });
 
+    // Emit city changes on their own (before the whole form is valid)
+    const cityControl = this.checkoutForm.get('city')!;
+    cityControl.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => {
+        this.cityChange.emit(cityControl.valid ? cityControl.value : null);
+      });
+
     // Emit value changes
     this.checkoutForm.valueChanges
       .pipe(takeUntilDestroyed(this.destroyRef))
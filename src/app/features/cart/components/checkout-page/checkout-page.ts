@@ -15,6 +15,7 @@ import { TranslateModule, TranslateService } from '@ngx-translate/core';
 // Feature Imports
 import { CartStore } from '../../store/cart.store';
 import { CheckoutService, ShippingAddress } from '../../services/checkout.service';
+import { ShippingEstimatorService } from '../../services/shipping-estimator.service';
 import { AddressService } from '../../../profile/services/address.service';
 
 // Sub-components
@@ -22,6 +23,7 @@ import { AddressSelectorComponent, AddressSelectionResult } from '../address-sel
 import { CheckoutFormComponent } from '../checkout-form/checkout-form';
 import { PaymentMethodSelectorComponent, PaymentMethod } from '../payment-method-selector/payment-method-selector';
 import { OrderSummaryComponent } from '../order-summary/order-summary';
+import { CartChangesNoticeComponent } from '../cart-changes-notice/cart-changes-notice';
 
 /**
  * Complete Checkout Page Component
@@ -44,7 +46,8 @@ import { OrderSummaryComponent } from '../order-summary/order-summary';
     AddressSelectorComponent,
     CheckoutFormComponent,
     PaymentMethodSelectorComponent,
-    OrderSummaryComponent
+    OrderSummaryComponent,
+    CartChangesNoticeComponent
   ],
   templateUrl: './checkout-page.html',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -57,6 +60,7 @@ export class CheckoutPage implements OnInit {
   private readonly addressService = inject(AddressService);
   private readonly messageService = inject(MessageService);
   private readonly translateService = inject(TranslateService);
+  private readonly shippingEstimator = inject(ShippingEstimatorService);
 
   // Component state
   readonly loading = signal(false);
@@ -67,19 +71,26 @@ export class CheckoutPage implements OnInit {
   readonly shippingAddress = signal<ShippingAddress | null>(null);
   readonly showAddressForm = signal(false);  // Show form when "new address" is selected
   readonly selectedAddressId = signal<string | null>(null);  // For saving after order
+  readonly selectedCity = signal<string | null>(null);  // City of the selected address or new-address form
 
   // Cart data from store
   readonly cartItems = this.cartStore.items;
   readonly cartSummary = this.cartStore.summary;
   readonly cartId = this.cartStore.cartId;
 
+  // Shipping and tax estimate for the selected city
+  readonly chargeEstimate = computed(() => 
+    this.shippingEstimator.estimate(this.cartSummary().payableTotal, this.selectedCity())
+  );
+
   // Computed properties for UI state
   readonly canSubmit = computed(() => 
     this.isFormValid() && 
     !this.isProcessing() && 
     !this.loading() && 
     this.cartItems().length > 0 &&
-    this.cartId()
+    this.cartId() &&
+    this.cartStore.canCheckout()   // Stock and price changes reviewed, no sold-out lines
   );
 
   // ✅ Computed signal for submit button label (avoids method calls in template)
@@ -116,6 +127,7 @@ export class CheckoutPage implements OnInit {
       this.showAddressForm.set(true);
       this.isFormValid.set(false);  // Wait for form validation
       this.selectedAddressId.set(null);  // New address, not saved yet
+      this.selectedCity.set(null);  // Wait for the form's city
     }
   }
 
@@ -125,6 +137,14 @@ export class CheckoutPage implements OnInit {
    */
   onAddressSelected(address: ShippingAddress): void {
     this.shippingAddress.set(address);
+    this.selectedCity.set(address.city);
+  }
+
+  /**
+   * Handle city changes from CheckoutFormComponent (new address)
+   */
+  onCityChange(city: string | null): void {
+    this.selectedCity.set(city);
   }
 
   /**
@@ -220,7 +240,8 @@ export class CheckoutPage implements OnInit {
           this.router.navigate(['/cart/success'], {
             queryParams: { 
               orderId: result.orderId,
-              paymentMethod: 'cash'
+              paymentMethod: 'cash',
+              city: shippingAddress.city  // For the delivery estimate
             }
           });
         } else {
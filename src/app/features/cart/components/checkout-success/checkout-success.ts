@@ -16,6 +16,9 @@ import { TranslateModule, TranslateService } from '@ngx-translate/core';
 // Feature Imports
 import { CartStore } from '../../store/cart.store';
 
+// Sub-components
+import { DeliveryEstimateComponent } from '../delivery-estimate/delivery-estimate';
+
 // Shared Utilities
 import { formatDate } from '../../../../shared/utils/cart.utils';
 
@@ -35,7 +38,9 @@ import { formatDate } from '../../../../shared/utils/cart.utils';
     DividerModule,
     BadgeModule,
     // Translation
-    TranslateModule
+    TranslateModule,
+    // Sub-components
+    DeliveryEstimateComponent
   ],
   templateUrl: './checkout-success.html',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -49,6 +54,8 @@ export class CheckoutSuccessPage implements OnInit {
   // Component state
   readonly orderId = signal<string | null>(null);
   readonly paymentMethod = signal<'cash' | 'card' | null>(null);
+  readonly city = signal<string | null>(null);          // Shipping city (cash orders) for the delivery estimate
+  readonly orderedAt = new Date();
 
   constructor() {
     // Extract query params in constructor to use takeUntilDestroyed()
@@ -62,6 +69,10 @@ export class CheckoutSuccessPage implements OnInit {
         if (params['paymentMethod']) {
           this.paymentMethod.set(params['paymentMethod']);
         }
+        
+        if (params['city']) {
+          this.city.set(params['city']);
+        }
       });
   }
 
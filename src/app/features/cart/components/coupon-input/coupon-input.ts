@@ -0,0 +1,85 @@
+import { ChangeDetectionStrategy, Component, computed, effect, inject, input } from '@angular/core';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+
+// PrimeNG Imports
+import { InputTextModule } from 'primeng/inputtext';
+import { ButtonModule } from 'primeng/button';
+
+// Translation
+import { TranslateModule } from '@ngx-translate/core';
+
+import { CartStore } from '../../store/cart.store';
+
+/**
+ * Coupon Input Component
+ * Applies or removes a coupon on the server cart (CartStore.applyCoupon / removeCoupon)
+ * Used by the cart page summary and OrderSummaryComponent on checkout
+ * Coupons need a server cart, so guests only see a sign-in hint
+ */
+@Component({
+  selector: 'app-coupon-input',
+  imports: [
+    ReactiveFormsModule,
+    // PrimeNG Components
+    InputTextModule,
+    ButtonModule,
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './coupon-input.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CouponInputComponent {
+  private readonly cartStore = inject(CartStore);
+
+  readonly isDisabled = input<boolean>(false);
+
+  readonly isAuthenticated = this.cartStore.isAuthenticated;
+  readonly hasCoupon = this.cartStore.hasCoupon;
+  readonly couponCode = this.cartStore.couponCode;
+  readonly couponError = this.cartStore.couponError;
+  readonly isApplying = this.cartStore.isApplyingCoupon;
+  readonly isBusy = computed(() => this.isApplying() || this.isDisabled());
+
+  readonly form = new FormGroup({
+    code: new FormControl('', {
+      nonNullable: true,
+      validators: [
+        Validators.required,
+        Validators.maxLength(30),
+        Validators.pattern(/^\s*[A-Za-z0-9_-]+\s*$/)
+      ]
+    })
+  });
+  readonly code = this.form.controls.code;
+
+  constructor() {
+    // Start from an empty field once a coupon is applied or dropped by a cart change
+    effect(() => {
+      this.hasCoupon();
+      this.form.reset();
+    });
+  }
+
+  apply(): void {
+    if (this.code.invalid) {
+      this.code.markAsTouched();
+      return;
+    }
+
+    this.cartStore.applyCoupon(this.code.value.trim());
+  }
+
+  remove(): void {
+    this.cartStore.removeCoupon();
+  }
+
+  /**
+   * Drop the server error as soon as the code is edited
+   */
+  onInput(): void {
+    if (this.couponError()) {
+      this.cartStore.clearCouponError();
+    }
+  }
+}
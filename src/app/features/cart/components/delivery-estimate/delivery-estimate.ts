@@ -0,0 +1,53 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { interval, map } from 'rxjs';
+
+// Translation
+import { TranslateModule } from '@ngx-translate/core';
+
+import { DeliveryEstimatorService } from '../../services/delivery-estimator.service';
+import { I18nService } from '../../../../core/services/i18n';
+
+/**
+ * Delivery Estimate Component
+ * "Arrives between X and Y" line for product details, cart summary and checkout success
+ * Dates are formatted for the current language (en/ar)
+ * Without orderedAt the window follows the clock (re-estimated every minute, e.g. once the cutoff passes)
+ */
+@Component({
+  selector: 'app-delivery-estimate',
+  imports: [
+    // Translation
+    TranslateModule
+  ],
+  templateUrl: './delivery-estimate.html',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DeliveryEstimateComponent {
+  private readonly deliveryEstimator = inject(DeliveryEstimatorService);
+  private readonly i18nService = inject(I18nService);
+
+  // Inputs
+  readonly city = input<string | null>(null);           // Delivery city (null = range across all zones)
+  readonly orderedAt = input<Date | null>(null);        // Order time (null = now)
+
+  // Current time, refreshed every minute
+  private readonly now = toSignal(interval(60 * 1000).pipe(map(() => new Date())), { initialValue: new Date() });
+
+  readonly window = computed(() => 
+    this.deliveryEstimator.estimate(this.city(), this.orderedAt() ?? this.now())
+  );
+
+  readonly dates = computed(() => {
+    const formatter = new Intl.DateTimeFormat(
+      this.i18nService.currentLanguage() === 'ar' ? 'ar-EG' : 'en-EG',
+      { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' } // Egypt days as UTC midnight
+    );
+    const { earliest, latest } = this.window();
+
+    return {
+      from: formatter.format(earliest),
+      to: formatter.format(latest)
+    };
+  });
+}
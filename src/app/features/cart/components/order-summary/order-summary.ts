@@ -1,4 +1,4 @@
-import { Component, input, computed, ChangeDetectionStrategy } from '@angular/core';
+import { Component, input, computed, inject, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
 
@@ -11,14 +11,20 @@ import { DividerModule } from 'primeng/divider';
 import { TranslateModule } from '@ngx-translate/core';
 
 // Types
-import { CartItem, CartSummary } from '../../models/cart.model';
+import { CartItem, CartSummary, OrderChargeEstimate } from '../../models/cart.model';
+
+// Sub-components
+import { CouponInputComponent } from '../coupon-input/coupon-input';
+
+// Services
+import { CurrencyService } from '../../../../core/services/currency';
 
 // Shared Utilities
-import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shared/utils/cart.utils';
+import { getProductImageUrl, trackCartItem } from '../../../../shared/utils/cart.utils';
 
 /**
  * Order Summary Component
- * Displays cart items and order totals
+ * Displays cart items, coupon and order totals
  * Focused single responsibility: Order display only
  */
 @Component({
@@ -31,7 +37,9 @@ import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shar
     ButtonModule,
     DividerModule,
     // Translation
-    TranslateModule
+    TranslateModule,
+    // Sub-components
+    CouponInputComponent
   ],
   templateUrl: './order-summary.html',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -39,8 +47,20 @@ import { formatPrice, getProductImageUrl, trackCartItem } from '../../../../shar
 export class OrderSummaryComponent {
   // Inputs
   readonly cartItems = input<CartItem[]>([]);
-  readonly cartSummary = input<CartSummary>({ totalItems: 0, totalPrice: 0, isEmpty: true, itemsCount: '0 items' });
+  readonly cartSummary = input<CartSummary>({ totalItems: 0, totalPrice: 0, discount: 0, payableTotal: 0, isEmpty: true, itemsCount: '0 items' });
   readonly isProcessing = input<boolean>(false);
+  readonly chargeEstimate = input<OrderChargeEstimate | null>(null);   // Shown once a city is picked
+
+  // Amount shown as the total: estimated grand total when a city is picked, cart total otherwise
+  // ⚠️ Display only - the order is charged the cart total (payableTotal), see the currency disclaimer
+  readonly displayTotal = computed(() => this.chargeEstimate()?.grandTotal ?? this.cartSummary().payableTotal);
+
+  private readonly currencyService = inject(CurrencyService);
+
+  // Display currency differs from the charged currency (EGP) - show the disclaimer
+  readonly isCurrencyConverted = this.currencyService.isConverted;
+  readonly displayCurrency = this.currencyService.displayCurrency;
+  readonly ratesUpdatedLabel = this.currencyService.ratesUpdatedLabel;
 
   /**
    * Track function for cart items to optimize change detection
@@ -59,10 +79,16 @@ export class OrderSummaryComponent {
   }
 
   /**
-   * Format price for display
-   * Uses shared utility for consistent formatting
+   * Format price for display in the selected currency
    */
   formatPrice(price: number): string {
-    return formatPrice(price);
+    return this.currencyService.format(price);
+  }
+
+  /**
+   * Format the amount actually charged (always EGP, cart total without estimated shipping/VAT)
+   */
+  formatChargedPrice(price: number): string {
+    return this.currencyService.formatBase(price);
   }
 }
@@ -0,0 +1,9 @@
+/**
+ * Cart Import Modes
+ * How lines from a share link or export file are applied to the current cart
+ * labelKey contains the i18n translation key
+ */
+export const CART_IMPORT_MODES = [
+  { labelKey: 'CART.IMPORT.MODE_MERGE', value: 'merge' },
+  { labelKey: 'CART.IMPORT.MODE_REPLACE', value: 'replace' }
+] as const;
@@ -0,0 +1,10 @@
+/**
+ * Cart Merge Options
+ * Choices offered for each product found in both the guest and server cart on login
+ * labelKey contains the i18n translation key
+ */
+export const CART_MERGE_OPTIONS = [
+  { labelKey: 'CART.MERGE.KEEP_BOTH', value: 'both' },
+  { labelKey: 'CART.MERGE.KEEP_SERVER', value: 'server' },
+  { labelKey: 'CART.MERGE.KEEP_GUEST', value: 'guest' }
+] as const;
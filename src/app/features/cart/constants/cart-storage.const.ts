@@ -0,0 +1,25 @@
+import { VersionedStorageDefinition } from '../../../core/models/storage.model';
+import { CartPersistenceData } from '../models/cart.model';
+import { cartPersistenceSchema } from '../models/cart.schema';
+
+/**
+ * Guest carts untouched for this long are treated as abandoned and dropped
+ */
+export const CART_STORAGE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Guest cart storage schema (CartService)
+ * Bump version and add a migration whenever CartPersistenceData or CartProductObject changes shape
+ */
+export const CART_STORAGE: VersionedStorageDefinition<CartPersistenceData> = {
+  version: 1,
+  schema: cartPersistenceSchema,
+  ttlMs: CART_STORAGE_TTL_MS,
+  migrations: {
+    // v0 -> v1: { items, lastUpdated, userId } - save time moved into the envelope
+    1: data => {
+      const { items, userId } = data as { items?: unknown; userId?: unknown };
+      return { items: items ?? [], userId: userId ?? null };
+    }
+  }
+};
@@ -0,0 +1,7 @@
+/**
+ * Cart Undo Settings
+ * Removing a line or clearing the cart can be undone from a toast for CART_UNDO_WINDOW_MS
+ */
+export const CART_UNDO_TOAST_KEY = 'cart-undo';
+
+export const CART_UNDO_WINDOW_MS = 8000;
@@ -0,0 +1,52 @@
+/**
+ * Delivery Calendar
+ * Business-day rules used by DeliveryEstimatorService
+ */
+
+/**
+ * Time zone the warehouse works in - cutoff and business days follow Egypt time, not the shopper's
+ */
+export const DELIVERY_TIME_ZONE = 'Africa/Cairo';
+
+/**
+ * Orders placed at or after this hour (Egypt time) are dispatched on the next business day
+ */
+export const DELIVERY_CUTOFF_HOUR = 14;
+
+/**
+ * Weekend days (Date.getDay(): 0 = Sunday ... 6 = Saturday) - Friday and Saturday in Egypt
+ */
+export const WEEKEND_DAYS: readonly number[] = [5, 6];
+
+/**
+ * Egyptian public holidays (YYYY-MM-DD) - no dispatch or delivery
+ * ⚠️ Islamic holidays follow the lunar calendar: dates are the expected ones, review them every year
+ */
+export const PUBLIC_HOLIDAYS: readonly string[] = [
+  // 2026
+  '2026-01-07',                                 // Coptic Christmas
+  '2026-01-25',                                 // Revolution Day
+  '2026-03-20', '2026-03-21', '2026-03-22',     // Eid al-Fitr
+  '2026-04-12', '2026-04-13',                   // Coptic Easter / Sham El-Nessim
+  '2026-04-25',                                 // Sinai Liberation Day
+  '2026-05-01',                                 // Labour Day
+  '2026-05-26', '2026-05-27', '2026-05-28', '2026-05-29', // Arafat Day / Eid al-Adha
+  '2026-06-16',                                 // Islamic New Year
+  '2026-06-30',                                 // June 30 Revolution
+  '2026-07-23',                                 // Revolution Day
+  '2026-08-25',                                 // Prophet's Birthday
+  '2026-10-06',                                 // Armed Forces Day
+  // 2027
+  '2027-01-07',                                 // Coptic Christmas
+  '2027-01-25',                                 // Revolution Day
+  '2027-03-10', '2027-03-11', '2027-03-12',     // Eid al-Fitr
+  '2027-04-25',                                 // Sinai Liberation Day
+  '2027-05-01',                                 // Labour Day
+  '2027-05-02', '2027-05-03',                   // Coptic Easter / Sham El-Nessim
+  '2027-05-15', '2027-05-16', '2027-05-17', '2027-05-18', // Arafat Day / Eid al-Adha
+  '2027-06-06',                                 // Islamic New Year
+  '2027-06-30',                                 // June 30 Revolution
+  '2027-07-23',                                 // Revolution Day
+  '2027-08-15',                                 // Prophet's Birthday
+  '2027-10-06'                                  // Armed Forces Day
+];
@@ -0,0 +1,46 @@
+/**
+ * Shipping Rates
+ * Flat shipping fee per delivery zone (no weight-based pricing)
+ * transitDays: business days from dispatch to delivery (see DeliveryEstimatorService)
+ * Every city in EGYPTIAN_CITIES belongs to exactly one zone
+ * labelKey contains the i18n translation key
+ */
+export const SHIPPING_ZONES = [
+  {
+    id: 'greater-cairo',
+    labelKey: 'CHECKOUT.ESTIMATE.ZONES.GREATER_CAIRO',
+    fee: 50,
+    transitDays: { min: 1, max: 2 },
+    freeShippingThreshold: 1000,
+    cities: ['Cairo', 'Giza']
+  },
+  {
+    id: 'delta-canal',
+    labelKey: 'CHECKOUT.ESTIMATE.ZONES.DELTA_CANAL',
+    fee: 65,
+    transitDays: { min: 2, max: 3 },
+    freeShippingThreshold: 1500,
+    cities: ['Alexandria', 'Port Said', 'Suez', 'Mansoura', 'Tanta', 'Zagazig', 'Ismailia']
+  },
+  {
+    id: 'upper-egypt',
+    labelKey: 'CHECKOUT.ESTIMATE.ZONES.UPPER_EGYPT',
+    fee: 85,
+    transitDays: { min: 3, max: 5 },
+    freeShippingThreshold: 2000,
+    cities: ['Fayyum', 'Beni Suef', 'Minya', 'Assiut', 'Sohag', 'Qena', 'Luxor', 'Aswan']
+  },
+  {
+    id: 'red-sea-sinai',
+    labelKey: 'CHECKOUT.ESTIMATE.ZONES.RED_SEA_SINAI',
+    fee: 100,
+    transitDays: { min: 4, max: 6 },
+    freeShippingThreshold: 2500,
+    cities: ['Hurghada', 'Sharm El Sheikh', 'Marsa Alam']
+  }
+] as const;
+
+/**
+ * Egyptian VAT rate applied to the order subtotal after discounts (shipping is not taxed)
+ */
+export const VAT_RATE = 0.14;
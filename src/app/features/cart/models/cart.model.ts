@@ -2,6 +2,8 @@
 // Updated: 2025-09-30 - Matches actual Route E-commerce API responses
 // All interfaces verified against real API testing
 
+import { Product } from '../../products/models/product.model';
+
 /**
  * Cart API Response Format
  * Based on real API testing (2025-09-30)
@@ -29,6 +31,7 @@ export interface CartApiResponse {
     updatedAt: string;
     __v: number;
     totalCartPrice: number;
+    totalPriceAfterDiscount?: number;  // Only present while a coupon is applied
   };
 }
 
@@ -94,6 +97,8 @@ export interface CartState {
   error: string | null;                 // Error message if any
   lastUpdated: number;                  // Timestamp of last update
   isAuthenticated: boolean;             // User authentication status
+  totalPriceAfterDiscount: number | null; // Server total with the applied coupon (null = no coupon)
+  couponCode: string | null;            // Applied coupon code (null when unknown, e.g. after reload)
 }
 
 /**
@@ -115,6 +120,28 @@ export interface UpdateCartItemRequest {
   count: string;                        // New quantity as STRING (API requirement)
 }
 
+/**
+ * Apply Coupon Request
+ * Real endpoint: PUT /cart/applyCoupon
+ * Real body: { "couponName": "..." }
+ */
+export interface ApplyCouponRequest {
+  couponName: string;                   // Coupon code
+}
+
+/**
+ * Cart Contents - Cart data returned by GET /cart
+ */
+export type CartContents = Pick<CartState, 'items' | 'cartId' | 'totalPriceAfterDiscount'>;
+
+/**
+ * Cart Coupon State - Coupon form feedback (kept out of CartState like CartMergeState)
+ */
+export interface CartCouponState {
+  isApplyingCoupon: boolean;            // Apply/remove request in flight
+  couponError: string | null;           // Last apply error (invalid or expired code)
+}
+
 /**
  * Remove from Cart Request
  * ✅ VERIFIED: API uses productId (NOT cart item ID)
@@ -129,17 +156,19 @@ export interface RemoveFromCartRequest {
  */
 export interface CartSummary {
   totalItems: number;                   // Total item count
-  totalPrice: number;                   // Total price
+  totalPrice: number;                   // Total price (before coupon)
+  discount: number;                     // Coupon discount (0 when no coupon)
+  payableTotal: number;                 // Total after coupon
   isEmpty: boolean;                     // Whether cart is empty
   itemsCount: string;                   // Formatted items count display
 }
 
 /**
  * Cart Persistence Data - For localStorage (guest users)
+ * Stored in a versioned envelope (save time lives in the envelope) - see CART_STORAGE
  */
 export interface CartPersistenceData {
   items: CartItem[];                    // Cart items
-  lastUpdated: number;                  // When saved
   userId: string | null;                // User ID if authenticated (null for guest)
 }
 
@@ -152,4 +181,190 @@ export interface CartOperationResult {
   item?: CartItem;                      // Updated/added item
   cart?: CartState;                     // Updated cart state
   cartId?: string | null;               // Cart ID from API response
-}
\ No newline at end of file
+}
+/**
+ * Cart Merge Choice - How to resolve a product that is in both the guest and server cart
+ * - both: add the quantities together
+ * - server: keep the server quantity
+ * - guest: use the guest quantity
+ */
+export type CartMergeChoice = 'both' | 'server' | 'guest';
+
+/**
+ * Cart Merge Conflict - Product present in both the guest cart and the server cart
+ */
+export interface CartMergeConflict {
+  product: CartProductObject;           // Product details (from the server cart)
+  guestQuantity: number;                // Quantity in the guest cart
+  serverQuantity: number;               // Quantity already in the server cart
+}
+
+/**
+ * Cart Merge Line - Target quantity for one product after merging
+ */
+export interface CartMergeLine {
+  productId: string;                    // Product ID
+  count: number;                        // Final quantity wanted on the server
+  serverCount: number;                  // Quantity currently on the server (0 = not in server cart)
+}
+
+/**
+ * Cart Merge Plan - Guest cart compared against the server cart on login
+ */
+export interface CartMergePlan {
+  lines: CartMergeLine[];               // Guest-only products (no conflict)
+  conflicts: CartMergeConflict[];       // Products waiting for a user choice
+}
+
+/**
+ * Cart Merge State - Login merge waiting for the user (CartMergeDialogComponent)
+ */
+export interface CartMergeState {
+  pendingMerge: CartMergePlan | null;   // Plan with unresolved conflicts (null = nothing to resolve)
+}
+
+/**
+ * Saved Cart Item - Product parked in "saved for later" (not counted in the cart)
+ */
+export interface SavedCartItem {
+  product: CartProductObject;           // Product details (stock refreshed on load)
+  quantity: number;                     // Quantity to restore when moved back to the cart
+  unitPrice: number;                    // Latest known price (refreshed on load)
+  savedAt: string;                      // When the item was saved
+}
+
+/**
+ * Saved For Later State - SignalStore slice for the cart page's saved section
+ */
+export interface SavedForLaterState {
+  items: SavedCartItem[];               // Saved items of the current owner
+  ownerId: string | null;               // User the list belongs to (null = guest)
+  isRefreshing: boolean;                // Refreshing stock and prices
+  movingProductIds: string[];           // Product IDs being moved back to the cart
+}
+
+/**
+ * Saved For Later Persistence Data - For localStorage (one entry per user)
+ */
+export interface SavedForLaterPersistenceData {
+  items: SavedCartItem[];               // Saved items
+  lastUpdated: number;                  // When saved
+}
+
+/**
+ * Cart Line Change - Difference between a cart line and current product data
+ * Found when the cart is re-checked on load and before checkout
+ */
+export interface CartLineChange {
+  productId: string;                    // Product ID
+  title: string;                        // Product title (for the notice)
+  outOfStock: boolean;                  // Product sold out - line must be removed before checkout
+  previousQuantity: number;             // Quantity before clamping
+  quantity: number;                     // Quantity after clamping to stock
+  previousPrice: number;                // Unit price stored in the cart (equals price when unchanged or already acknowledged)
+  price: number;                        // Current unit price
+}
+
+/**
+ * Cart Quantity State - Optimistic quantity updates waiting for the server
+ */
+export interface CartQuantityState {
+  confirmedQuantities: Record<string, number>; // Last server-confirmed quantity by product ID (pending products only)
+}
+
+/**
+ * Cart Reconciliation State - Changes waiting for the user's acknowledgement
+ * Checkout stays blocked while changes are unacknowledged or sold-out lines remain
+ */
+export interface CartReconciliationState {
+  lineChanges: CartLineChange[];        // Unacknowledged changes
+  acknowledgedPrices: Record<string, number>; // Acknowledged current price by product ID (not reported again)
+  isReconciling: boolean;               // Re-check in progress
+}
+
+/**
+ * Cart Undo Snapshot - Lines removed by one remove/clear action
+ */
+export interface CartUndoSnapshot {
+  id: string;                           // Snapshot ID (carried by the undo toast)
+  action: 'remove' | 'clear';           // Action that removed the lines
+  items: CartItem[];                    // Removed lines with their quantities at removal time
+  expiresAt: number;                    // End of the undo window (timestamp)
+}
+
+/**
+ * Cart Undo State - Removals that can still be undone
+ */
+export interface CartUndoState {
+  undoSnapshots: CartUndoSnapshot[];    // Snapshots inside their undo window
+  isUndoing: boolean;                   // Restore in progress
+}
+
+/**
+ * Order Charge Estimate - Shipping and tax before the order is placed
+ * The server computes the final shippingPrice / taxPrice when the order is created
+ */
+export interface OrderChargeEstimate {
+  city: string;                         // City the estimate is for
+  zoneLabelKey: string;                 // Delivery zone i18n key
+  subtotal: number;                     // Payable cart total (after coupon)
+  shipping: number;                     // Shipping fee (0 when free)
+  isFreeShipping: boolean;              // Subtotal reached the zone's free-shipping threshold
+  freeShippingRemaining: number;        // Amount left to reach free shipping (0 when free)
+  taxRate: number;                      // VAT rate (e.g. 0.14)
+  tax: number;                          // VAT on the subtotal
+  grandTotal: number;                   // subtotal + shipping + tax
+}
+
+/**
+ * Delivery Window - Expected delivery dates for an order placed at a given time
+ * ⚠️ Days are Egypt calendar days stored as UTC midnight - format them with timeZone 'UTC'
+ */
+export interface DeliveryWindow {
+  city: string | null;                  // City the window is for (null = range across all zones)
+  dispatchDate: Date;                   // Business day the order leaves the warehouse
+  earliest: Date;                       // Earliest delivery day
+  latest: Date;                         // Latest delivery day
+}
+
+/**
+ * Cart Share Line - Product and quantity carried by a share link or an export file
+ */
+export interface CartShareLine {
+  productId: string;                    // Product ID
+  quantity: number;                     // Requested quantity
+}
+
+/**
+ * Cart Export File - JSON file written by "export cart"
+ */
+export interface CartExportFile {
+  format: 'freshcart-cart';             // File marker
+  version: 1;                           // File format version
+  exportedAt: string;                   // ISO timestamp
+  items: CartShareLine[];
+}
+
+/**
+ * Cart Import Mode - How imported lines are applied to the current cart
+ * - replace: the cart becomes the imported lines
+ * - merge: imported quantities are added to the current cart
+ */
+export type CartImportMode = 'replace' | 'merge';
+
+/**
+ * Cart Import Line - Shared line previewed with current product data
+ */
+export interface CartImportLine {
+  productId: string;                    // Product ID from the link/file
+  requestedQuantity: number;            // Quantity from the link/file
+  product: Product | null;              // Current product (null = not found)
+  quantity: number;                     // Quantity that will be imported (clamped to stock, 0 = unavailable)
+}
+
+/**
+ * Cart Import State
+ */
+export interface CartImportState {
+  isImporting: boolean;                 // Import in progress
+}
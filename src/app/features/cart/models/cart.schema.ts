@@ -0,0 +1,94 @@
+// Cart Schemas - Runtime validation for cart.model.ts
+// Only fields the UI relies on are checked; extra fields are allowed
+
+import { Schema, s } from '../../../shared/utils/schema.utils';
+
+/**
+ * Cart Product Object Schema (populated product in GET/PUT/DELETE responses)
+ */
+const cartProductObjectSchema = s.object({
+  _id: s.string(),
+  title: s.string(),
+  imageCover: s.string(),
+  quantity: s.number(),
+  ratingsAverage: s.number(),
+  category: s.object({ _id: s.string(), name: s.string() }),
+  brand: s.object({ _id: s.string(), name: s.string() })
+});
+
+/**
+ * Build a cart response schema for the given product shape
+ */
+function cartResponseSchema<P>(product: Schema<P>) {
+  return s.object({
+    status: s.string(),
+    numOfCartItems: s.number(),
+    cartId: s.string(),
+    data: s.object({
+      _id: s.string(),
+      cartOwner: s.string(),
+      products: s.array(s.object({
+        count: s.number(),
+        _id: s.string(),
+        product,
+        price: s.number()
+      })),
+      createdAt: s.string(),
+      updatedAt: s.string(),
+      totalCartPrice: s.number(),
+      totalPriceAfterDiscount: s.optional(s.number())
+    })
+  });
+}
+
+/**
+ * Cart API Response Schema - GET /cart, PUT /cart/{productId}, DELETE /cart/{productId}
+ * Products are populated objects
+ */
+export const cartApiResponseSchema = cartResponseSchema(cartProductObjectSchema);
+
+/**
+ * Add to Cart Response Schema - POST /cart
+ * ⚠️ API quirk: product is returned as a STRING ID, not a populated object
+ */
+export const addToCartResponseSchema = cartResponseSchema(s.string());
+
+/**
+ * Apply Coupon Response Schema - PUT /cart/applyCoupon
+ * Only the discounted total is checked - the cart is reloaded with GET /cart afterwards
+ */
+export const applyCouponResponseSchema = s.object({
+  status: s.string(),
+  data: s.object({
+    totalPriceAfterDiscount: s.number()
+  })
+});
+
+/**
+ * Cart Export File Schema - JSON files read by "import cart"
+ */
+export const cartExportFileSchema = s.object({
+  format: s.literal('freshcart-cart'),
+  version: s.literal(1),
+  exportedAt: s.string(),
+  items: s.array(s.object({
+    productId: s.string(),
+    quantity: s.number()
+  }))
+});
+
+/**
+ * Cart Persistence Schema - guest cart saved in storage (current envelope version)
+ */
+export const cartPersistenceSchema = s.object({
+  items: s.array(s.object({
+    _id: s.string(),
+    product: cartProductObjectSchema,
+    quantity: s.number(),
+    unitPrice: s.number(),
+    totalPrice: s.number(),
+    addedAt: s.string(),
+    updatedAt: s.string()
+  })),
+  userId: s.nullable(s.string())
+});
@@ -0,0 +1,128 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, forkJoin, from, throwError } from 'rxjs';
+import { map, catchError, switchMap } from 'rxjs/operators';
+
+import { ProductsService } from '../../products/services/products';
+import { CartExportFile, CartImportLine, CartItem, CartShareLine } from '../models/cart.model';
+import { cartExportFileSchema } from '../models/cart.schema';
+import { decodeCartShareCode, encodeCartShareCode } from '../../../shared/utils/cart.utils';
+
+/**
+ * Cart Share Service - Share links and JSON export/import
+ *
+ * - Share link: /cart/import?items=<productId:quantity,...> (see encodeCartShareCode)
+ * - Export file: CartExportFile JSON; importing a file goes through the same preview page as a link
+ * - Only product IDs and quantities are shared - prices and stock are re-read for the preview
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartShareService {
+  private readonly productsService = inject(ProductsService);
+
+  // Query param holding the share code on the import route
+  readonly SHARE_PARAM = 'items';
+
+  /**
+   * Absolute share link for the given cart lines
+   */
+  buildShareUrl(items: CartItem[]): string {
+    const code = encodeCartShareCode(this.toShareLines(items));
+    return `${window.location.origin}/cart/import?${this.SHARE_PARAM}=${code}`;
+  }
+
+  /**
+   * Share code for lines read from a file (used to open the import preview)
+   */
+  toShareCode(lines: CartShareLine[]): string {
+    return encodeCartShareCode(lines);
+  }
+
+  /**
+   * Lines carried by a share code (malformed entries are skipped)
+   */
+  parseShareCode(code: string | null | undefined): CartShareLine[] {
+    return decodeCartShareCode(code);
+  }
+
+  /**
+   * Download the cart lines as a JSON file
+   */
+  exportToFile(items: CartItem[]): void {
+    const file: CartExportFile = {
+      format: 'freshcart-cart',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      items: this.toShareLines(items)
+    };
+
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `freshcart-cart-${Date.now()}.json`;
+    link.click();
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(link.href));
+  }
+
+  /**
+   * Read cart lines from an exported JSON file
+   * Fails with a readable Error when the file is not a cart export
+   */
+  readExportFile(file: File): Observable<CartShareLine[]> {
+    return from(file.text()).pipe(
+      switchMap(text => {
+        let data: unknown;
+        try {
+          data = JSON.parse(text);
+        } catch {
+          return throwError(() => new Error('The file is not valid JSON'));
+        }
+
+        const issue = cartExportFileSchema.validate(data, '');
+        if (issue) {
+          return throwError(() => new Error(`Not a FreshCart cart export (${issue.path || 'file'}: expected ${issue.expected})`));
+        }
+
+        // Same normalization as share links (invalid IDs/quantities dropped)
+        const lines = (data as CartExportFile).items;
+        return of(this.parseShareCode(encodeCartShareCode(lines.map(line => ({
+          productId: line.productId,
+          quantity: Math.floor(line.quantity)
+        })))));
+      })
+    );
+  }
+
+  /**
+   * Preview shared lines with current product data
+   * Products are read fresh (not from the response cache)
+   * Quantities are clamped to stock; missing or sold-out products import nothing
+   */
+  loadPreview(lines: CartShareLine[]): Observable<CartImportLine[]> {
+    if (lines.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(lines.map(line =>
+      this.productsService.getProductById(line.productId, true).pipe(
+        map((product): CartImportLine => ({
+          productId: line.productId,
+          requestedQuantity: line.quantity,
+          product,
+          quantity: Math.max(Math.min(line.quantity, product.quantity), 0)
+        })),
+        catchError(() => of<CartImportLine>({
+          productId: line.productId,
+          requestedQuantity: line.quantity,
+          product: null,
+          quantity: 0
+        }))
+      )
+    ));
+  }
+
+  private toShareLines(items: CartItem[]): CartShareLine[] {
+    return items.map(item => ({ productId: item.product._id, quantity: item.quantity }));
+  }
+}
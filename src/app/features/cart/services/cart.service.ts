@@ -1,11 +1,16 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable, of, forkJoin } from 'rxjs';
-import { map, catchError, switchMap } from 'rxjs/operators';
+import { map, catchError, switchMap, tap } from 'rxjs/operators';
 
 import { ApiService } from '../../../core/services/api';
 import { StorageService } from '../../../core/services/storage';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
 import { AuthService } from '../../auth/services/auth';
+import { ProductsService } from '../../products/services/products';
+import { Product } from '../../products/models/product.model';
 import { extractErrorMessage } from '../../../shared/utils/error.utils';
+import { CACHE_TAGS, STORAGE_KEYS } from '../../../core/constants/api-endpoints.const';
+import { ApiRequestOptions } from '../../../core/models/api-response.model';
 import { 
   CartApiResponse,
   CartProductObject,
@@ -13,9 +18,15 @@ import {
   AddToCartRequest, 
   UpdateCartItemRequest, 
   RemoveFromCartRequest,
+  ApplyCouponRequest,
+  CartContents,
   CartPersistenceData,
-  CartOperationResult
+  CartOperationResult,
+  CartMergeLine
 } from '../models/cart.model';
+import { addToCartResponseSchema, applyCouponResponseSchema, cartApiResponseSchema } from '../models/cart.schema';
+import { CART_STORAGE } from '../constants/cart-storage.const';
+import { buildCartMergePlan, resolveCartMergeConflict } from '../../../shared/utils/cart.utils';
 
 /**
  * Cart Service - API operations and persistence
@@ -29,6 +40,8 @@ export class CartService {
   private readonly api = inject(ApiService);
   private readonly storage = inject(StorageService);
   private readonly authService = inject(AuthService);
+  private readonly crossTabSync = inject(CrossTabSyncService);
+  private readonly productsService = inject(ProductsService);
 
   // Cart API endpoints
   private readonly CART_ENDPOINTS = {
@@ -36,34 +49,49 @@ export class CartService {
     ADD_TO_CART: '/cart',
     UPDATE_CART_ITEM: '/cart',      // PUT /cart/{productId}
     REMOVE_CART_ITEM: '/cart',      // DELETE /cart/{productId}
-    CLEAR_CART: '/cart'
+    CLEAR_CART: '/cart',
+    APPLY_COUPON: '/cart/applyCoupon'
   };
 
-  // LocalStorage key for cart persistence
-  private readonly CART_STORAGE_KEY = 'freshcart_cart';
-  
-  // Cart expiration configuration
-  private readonly CART_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+  // Cart writes drop cached product reads so stock info revalidates
+  private readonly MUTATION_OPTIONS: ApiRequestOptions = {
+    invalidateTags: [CACHE_TAGS.PRODUCTS]
+  };
+
+  // POST /cart returns product IDs; GET/PUT/DELETE return populated products
+  private readonly ADD_OPTIONS: ApiRequestOptions = {
+    ...this.MUTATION_OPTIONS,
+    schema: addToCartResponseSchema
+  };
+
+  private readonly UPDATE_OPTIONS: ApiRequestOptions = {
+    ...this.MUTATION_OPTIONS,
+    schema: cartApiResponseSchema
+  };
+
+  // Storage key for cart persistence (follows the session persistence chosen at login)
+  private readonly CART_STORAGE_KEY = STORAGE_KEYS.GUEST_CART;
 
   /**
    * Get user's cart from API
    * API: GET /cart
    * ✅ Returns full cart with populated product objects
    */
-  getCart(): Observable<{ items: CartItem[]; cartId: string | null }> {
+  getCart(): Observable<CartContents> {
     if (!this.authService.isAuthenticated()) {
-      return of({ items: [], cartId: null });
+      return of({ items: [], cartId: null, totalPriceAfterDiscount: null });
     }
 
-    return this.api.get<CartApiResponse>(this.CART_ENDPOINTS.GET_CART)
+    return this.api.get<CartApiResponse>(this.CART_ENDPOINTS.GET_CART, undefined, { schema: cartApiResponseSchema })
       .pipe(
         map(response => ({
           items: this.transformApiCartToItems(response),
-          cartId: response.data._id
+          cartId: response.data._id,
+          totalPriceAfterDiscount: response.data.totalPriceAfterDiscount ?? null
         })),
         catchError(error => {
           console.error('Get cart error:', error);
-          return of({ items: [], cartId: null });
+          return of({ items: [], cartId: null, totalPriceAfterDiscount: null });
         })
       );
   }
@@ -86,7 +114,7 @@ export class CartService {
     // Chain: POST /cart → GET /cart to get full product objects
     return this.api.post<CartApiResponse>(this.CART_ENDPOINTS.ADD_TO_CART, {
       productId: request.productId
-    }).pipe(
+    }, this.ADD_OPTIONS).pipe(
       switchMap(postResponse => {
         // POST succeeded - now GET the full cart with populated products
         return this.getCart().pipe(
@@ -102,11 +130,14 @@ export class CartService {
               isSyncing: false,
               error: null,
               lastUpdated: Date.now(),
-              isAuthenticated: true
+              isAuthenticated: true,
+              totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+              couponCode: null
             }
           }))
         );
       }),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Add to cart error:', error);
         return of({
@@ -131,7 +162,8 @@ export class CartService {
 
     return this.api.put<CartApiResponse>(
       `${this.CART_ENDPOINTS.UPDATE_CART_ITEM}/${request.productId}`,
-      { count: request.count }
+      { count: request.count },
+      this.UPDATE_OPTIONS
     ).pipe(
       map(response => ({
         success: true,
@@ -145,9 +177,12 @@ export class CartService {
           isSyncing: false,
           error: null,
           lastUpdated: Date.now(),
-          isAuthenticated: true
+          isAuthenticated: true,
+          totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+          couponCode: null
         }
       })),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Update cart item error:', error);
         return of({
@@ -170,7 +205,8 @@ export class CartService {
     }
 
     return this.api.delete<CartApiResponse>(
-      `${this.CART_ENDPOINTS.REMOVE_CART_ITEM}/${request.productId}`
+      `${this.CART_ENDPOINTS.REMOVE_CART_ITEM}/${request.productId}`,
+      this.UPDATE_OPTIONS
     ).pipe(
       map(response => ({
         success: true,
@@ -184,9 +220,12 @@ export class CartService {
           isSyncing: false,
           error: null,
           lastUpdated: Date.now(),
-          isAuthenticated: true
+          isAuthenticated: true,
+          totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+          couponCode: null
         }
       })),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Remove from cart error:', error);
         return of({
@@ -206,7 +245,7 @@ export class CartService {
       return of({ success: false, message: 'Authentication required' });
     }
 
-    return this.api.delete<{ message: string }>(this.CART_ENDPOINTS.CLEAR_CART)
+    return this.api.delete<{ message: string }>(this.CART_ENDPOINTS.CLEAR_CART, this.MUTATION_OPTIONS)
       .pipe(
         map(response => ({
           success: true,
@@ -220,9 +259,12 @@ export class CartService {
             isSyncing: false,
             error: null,
             lastUpdated: Date.now(),
-            isAuthenticated: true
+            isAuthenticated: true,
+            totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+            couponCode: null
           }
         })),
+        tap(() => this.notifyOtherTabs()),
         catchError(error => {
           console.error('Clear cart error:', error);
           return of({
@@ -234,36 +276,148 @@ export class CartService {
   }
 
   /**
-   * Sync local cart with server (when user logs in)
-   * ✅ OPTIMIZED: All POSTs in parallel, then single GET
+   * Apply a coupon to the cart
+   * API: PUT /cart/applyCoupon
+   * Body: { "couponName": "..." }
    * 
-   * Before: N items = N*(POST+GET) = 2N API calls
-   * After: N items = N*POST + 1*GET = N+1 API calls (50% reduction)
+   * ✅ Followed by GET /cart for the populated cart and the discounted total
+   * ⚠️ Invalid or expired codes fail with 400 - the message is returned for the coupon form
+   */
+  applyCoupon(request: ApplyCouponRequest): Observable<CartOperationResult> {
+    if (!this.authService.isAuthenticated()) {
+      return of({ success: false, message: 'Authentication required' });
+    }
+
+    return this.api.put<unknown>(this.CART_ENDPOINTS.APPLY_COUPON, request, {
+      ...this.MUTATION_OPTIONS,
+      schema: applyCouponResponseSchema,
+      skipErrorHandler: true            // Shown inline by the coupon form instead of a toast
+    }).pipe(
+      switchMap(() => this.getCart()),
+      map(({ items, cartId, totalPriceAfterDiscount }) => ({
+        success: true,
+        message: 'Coupon applied successfully',
+        cartId,
+        cart: {
+          items,
+          cartId,
+          isLoading: false,
+          loadingProductIds: [],
+          isSyncing: false,
+          error: null,
+          lastUpdated: Date.now(),
+          isAuthenticated: true,
+          totalPriceAfterDiscount,
+          couponCode: request.couponName
+        }
+      })),
+      tap(() => this.notifyOtherTabs()),
+      catchError(error => {
+        console.error('Apply coupon error:', error);
+        return of({
+          success: false,
+          message: extractErrorMessage(error)
+        });
+      })
+    );
+  }
+
+  /**
+   * Remove the applied coupon
+   * ⚠️ The API has no remove-coupon endpoint. Every cart write recalculates the totals and
+   * drops totalPriceAfterDiscount (undocumented server behaviour), so rewriting
+   * one line with its current count removes the discount without changing the cart.
+   * An empty cart has no line to rewrite - callers drop the coupon locally (CartStore.removeCoupon)
+   * @param anchor - Any cart line (its quantity is kept as is)
+   */
+  removeCoupon(anchor: CartItem): Observable<CartOperationResult> {
+    return this.updateCartItem({
+      productId: anchor.product._id,
+      count: anchor.quantity.toString()
+    });
+  }
+
+  /**
+   * Sync local cart with server without asking the user
+   * Products already on the server keep both quantities (guest + server)
+   * ⚠️ CartStore asks the user instead (merge dialog) - see CartStore.syncCartWithServer
    */
   syncCartWithServer(localItems: CartItem[]): Observable<CartOperationResult> {
     if (!this.authService.isAuthenticated() || localItems.length === 0) {
       return of({ success: true, message: 'No items to sync' });
     }
 
-    // Create array of POST operations (no GET chains, just POSTs)
-    const postOperations = localItems.map(item =>
+    return this.getCart().pipe(
+      switchMap(({ items }) => {
+        const plan = buildCartMergePlan(localItems, items);
+        return this.applyCartMerge([
+          ...plan.lines,
+          ...plan.conflicts.map(conflict => resolveCartMergeConflict(conflict, 'both'))
+        ]);
+      })
+    );
+  }
+
+  /**
+   * Apply merged quantities to the server cart
+   * ✅ OPTIMIZED: All POSTs in parallel, then all PUTs in parallel, then single GET
+   * 
+   * ⚠️ POST /cart always adds quantity = 1, so:
+   * - Products missing from the server cart are POSTed first
+   * - PUT /cart/{productId} then sets the final count wherever it differs
+   * - The final GET returns the merged cart even when some lines failed
+   */
+  applyCartMerge(lines: CartMergeLine[]): Observable<CartOperationResult> {
+    if (!this.authService.isAuthenticated()) {
+      return of({ success: false, message: 'Authentication required' });
+    }
+
+    // Step 1: POST products that are not in the server cart yet
+    const additions = lines.filter(line => line.serverCount === 0);
+    const postOperations = additions.map(line =>
       this.api.post<CartApiResponse>(this.CART_ENDPOINTS.ADD_TO_CART, {
-        productId: item.product._id
-      }).pipe(
+        productId: line.productId
+      }, this.ADD_OPTIONS).pipe(
+        map(() => line),
         catchError(error => {
-          console.error(`Failed to sync item ${item.product._id}:`, error);
+          console.error(`Failed to sync item ${line.productId}:`, error);
           return of(null); // Continue with other items even if one fails
         })
       )
     );
-    
-    // Execute all POSTs in parallel, then ONE final GET
-    return forkJoin(postOperations).pipe(
-      switchMap(results => {
-        const successCount = results.filter(r => r !== null).length;
-        const failCount = results.length - successCount;
-        
-        if (successCount === 0) {
+
+    const added$: Observable<(CartMergeLine | null)[]> = postOperations.length > 0 ? forkJoin(postOperations) : of([]);
+
+    return added$.pipe(
+      switchMap(added => {
+        const failedAdditions = added.filter(line => line === null).length;
+        const onServer = lines.filter(line => line.serverCount > 0 || added.includes(line));
+
+        // Step 2: PUT the final count where it differs from the server (a fresh POST holds 1)
+        const updateOperations = onServer
+          .filter(line => line.count !== Math.max(line.serverCount, 1))
+          .map(line =>
+            this.api.put<CartApiResponse>(
+              `${this.CART_ENDPOINTS.UPDATE_CART_ITEM}/${line.productId}`,
+              { count: line.count.toString() },
+              this.UPDATE_OPTIONS
+            ).pipe(
+              map(() => true),
+              catchError(error => {
+                console.error(`Failed to update synced item ${line.productId}:`, error);
+                return of(false);
+              })
+            )
+          );
+
+        const updated$: Observable<boolean[]> = updateOperations.length > 0 ? forkJoin(updateOperations) : of([]);
+
+        return updated$.pipe(
+          map(updated => failedAdditions + updated.filter(ok => !ok).length)
+        );
+      }),
+      switchMap(failCount => {
+        if (lines.length > 0 && failCount === lines.length) {
           return of({
             success: false,
             message: 'Failed to sync all items'
@@ -275,8 +429,8 @@ export class CartService {
           map(({ items, cartId }) => ({
             success: failCount === 0,
             message: failCount === 0 
-              ? `Successfully synced ${successCount} items` 
-              : `Synced ${successCount} items, ${failCount} failed`,
+              ? `Successfully synced ${lines.length} items` 
+              : `Synced ${lines.length - failCount} items, ${failCount} failed`,
             cartId,
             cart: {
               items,
@@ -286,11 +440,16 @@ export class CartService {
               isSyncing: false,
               error: null,
               lastUpdated: Date.now(),
-              isAuthenticated: true
+              isAuthenticated: true,
+              totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+              couponCode: null
             }
           }))
         );
       }),
+      tap((result: CartOperationResult) => {
+        if (result.cart) this.notifyOtherTabs();
+      }),
       catchError(error => {
         console.error('Cart sync error:', error);
         return of({ 
@@ -301,20 +460,45 @@ export class CartService {
     );
   }
 
+  /**
+   * Load current product data for cart lines (stock and price re-check)
+   * Products are read fresh (not from the response cache); lines whose product can't be loaded are left out
+   */
+  getCurrentProducts(items: CartItem[]): Observable<Array<{ item: CartItem; product: Product }>> {
+    if (items.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(
+      items.map(item =>
+        this.productsService.getProductById(item.product._id, true).pipe(
+          map(product => ({ item, product })),
+          catchError(error => {
+            console.error(`Failed to re-check cart item ${item.product._id}:`, error);
+            return of(null);
+          })
+        )
+      )
+    ).pipe(
+      map(lines => lines.filter((line): line is { item: CartItem; product: Product } => line !== null))
+    );
+  }
+
   // ===== PERSISTENCE METHODS =====
 
   /**
    * Save cart to localStorage (for guest users or temporary persistence)
+   * Written as a versioned envelope - see CART_STORAGE
    */
   saveCartToStorage(items: CartItem[]): void {
     try {
       const cartData: CartPersistenceData = {
         items,
-        lastUpdated: Date.now(),
         userId: this.authService.getCurrentUserId()
       };
       
-      this.storage.setItem(this.CART_STORAGE_KEY, JSON.stringify(cartData));
+      this.storage.setVersionedItem(this.CART_STORAGE_KEY, cartData, CART_STORAGE);
+      this.notifyOtherTabs();
     } catch (error) {
       console.error('Failed to save cart to storage:', error);
     }
@@ -322,35 +506,22 @@ export class CartService {
 
   /**
    * Load cart from localStorage
+   * ✅ Older versions are migrated, abandoned carts (CART_STORAGE_TTL_MS) expire,
+   *    unreadable entries are quarantined by StorageService
    */
   loadCartFromStorage(): CartItem[] {
     try {
-      const cartDataStr = this.storage.getItem(this.CART_STORAGE_KEY);
-      if (!cartDataStr || typeof cartDataStr !== 'string') return [];
+      const cartData = this.storage.getVersionedItem(this.CART_STORAGE_KEY, CART_STORAGE);
+      if (!cartData) return [];
 
-      try {
-        const cartData: CartPersistenceData = JSON.parse(cartDataStr);
-        if (!cartData || typeof cartData !== 'object') return [];
-        
-        // Check if cart belongs to current user (if authenticated)
-        const currentUserId = this.authService.getCurrentUserId();
-        if (currentUserId && cartData.userId && cartData.userId !== currentUserId) {
-          this.clearCartFromStorage();
-          return [];
-        }
-
-        // Check if cart is not too old (24 hours)
-        if (Date.now() - cartData.lastUpdated > this.CART_MAX_AGE_MS) {
-          this.clearCartFromStorage();
-          return [];
-        }
-
-        return cartData.items || [];
-      } catch (parseError) {
-        console.error('Error parsing cart data:', parseError);
+      // Check if cart belongs to current user (if authenticated)
+      const currentUserId = this.authService.getCurrentUserId();
+      if (currentUserId && cartData.userId && cartData.userId !== currentUserId) {
         this.clearCartFromStorage();
         return [];
       }
+
+      return cartData.items;
     } catch (error) {
       console.error('Failed to load cart from storage:', error);
       return [];
@@ -363,6 +534,7 @@ export class CartService {
   clearCartFromStorage(): void {
     try {
       this.storage.removeItem(this.CART_STORAGE_KEY);
+      this.notifyOtherTabs();
     } catch (error) {
       console.error('Failed to clear cart from storage:', error);
     }
@@ -370,6 +542,13 @@ export class CartService {
 
   // ===== PRIVATE HELPER METHODS =====
 
+  /**
+   * Let other tabs reload their cart (server cart or localStorage changed)
+   */
+  private notifyOtherTabs(): void {
+    this.crossTabSync.publish('cart:changed');
+  }
+
   /**
    * Transform API cart response to internal CartItem[]
    * 
@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DeliveryEstimatorService } from './delivery-estimator.service';
+
+/**
+ * Egypt calendar day of a window date (stored as UTC midnight)
+ */
+function day(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+describe('DeliveryEstimatorService', () => {
+  let service: DeliveryEstimatorService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DeliveryEstimatorService);
+  });
+
+  it('should dispatch the same day before the cutoff (Egypt time)', () => {
+    // Monday 11:00 in Cairo (UTC+2)
+    const window = service.estimate('Cairo', new Date('2026-11-02T09:00:00Z'));
+
+    expect(window.city).toBe('Cairo');
+    expect(day(window.dispatchDate)).toBe('2026-11-02');
+    expect(day(window.earliest)).toBe('2026-11-03');
+    expect(day(window.latest)).toBe('2026-11-04');
+  });
+
+  it('should dispatch the next business day after the cutoff', () => {
+    // Monday 14:30 in Cairo
+    const window = service.estimate('Cairo', new Date('2026-11-02T12:30:00Z'));
+
+    expect(day(window.dispatchDate)).toBe('2026-11-03');
+  });
+
+  it('should use the Egypt calendar day for orders placed around midnight', () => {
+    // Monday 22:30 UTC is already Tuesday 00:30 in Cairo - before the cutoff
+    const window = service.estimate('Cairo', new Date('2026-11-02T22:30:00Z'));
+
+    expect(day(window.dispatchDate)).toBe('2026-11-03');
+  });
+
+  it('should skip the weekend', () => {
+    // Thursday 15:00 in Cairo - Friday and Saturday are not business days
+    const window = service.estimate('Cairo', new Date('2026-11-05T13:00:00Z'));
+
+    expect(day(window.dispatchDate)).toBe('2026-11-08');
+    expect(day(window.earliest)).toBe('2026-11-09');
+    expect(day(window.latest)).toBe('2026-11-10');
+  });
+
+  it('should skip public holidays', () => {
+    // Armed Forces Day (Tuesday) 11:00 in Cairo (UTC+3 in summer time)
+    const window = service.estimate('Cairo', new Date('2026-10-06T08:00:00Z'));
+
+    expect(day(window.dispatchDate)).toBe('2026-10-07');
+    expect(day(window.earliest)).toBe('2026-10-08');
+    expect(day(window.latest)).toBe('2026-10-11');
+  });
+
+  it('should span every zone when the city is unknown', () => {
+    const window = service.estimate(null, new Date('2026-11-02T09:00:00Z'));
+
+    expect(window.city).toBeNull();
+    expect(day(window.earliest)).toBe('2026-11-03');
+    expect(day(window.latest)).toBe('2026-11-10');
+  });
+});
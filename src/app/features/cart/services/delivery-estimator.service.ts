@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+
+import { DeliveryWindow } from '../models/cart.model';
+import { SHIPPING_ZONES } from '../constants/shipping-rates.const';
+import {
+  DELIVERY_CUTOFF_HOUR,
+  DELIVERY_TIME_ZONE,
+  PUBLIC_HOLIDAYS,
+  WEEKEND_DAYS
+} from '../constants/delivery-calendar.const';
+import { ShippingEstimatorService } from './shipping-estimator.service';
+
+/**
+ * Delivery Estimator Service - "Arrives between X and Y" dates
+ *
+ * - Orders placed before DELIVERY_CUTOFF_HOUR on a business day are dispatched the same day,
+ *   later orders (or orders on a weekend/holiday) on the next business day
+ * - Delivery takes the zone's transitDays business days after dispatch
+ * - Business days skip WEEKEND_DAYS (Friday/Saturday) and PUBLIC_HOLIDAYS
+ * - Without a city the window spans the fastest and slowest zones
+ * - Cutoff and calendar days are in Egypt time (DELIVERY_TIME_ZONE), not the browser's time zone
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DeliveryEstimatorService {
+  private readonly shippingEstimator = inject(ShippingEstimatorService);
+
+  // Transit range across all zones (used when the city is unknown)
+  private readonly nationalTransitDays = {
+    min: Math.min(...SHIPPING_ZONES.map(zone => zone.transitDays.min)),
+    max: Math.max(...SHIPPING_ZONES.map(zone => zone.transitDays.max))
+  };
+
+  // Calendar date and hour of an instant in Egypt time
+  private readonly egyptClock = new Intl.DateTimeFormat('en-CA', {
+    timeZone: DELIVERY_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  });
+
+  /**
+   * Delivery window for an order
+   * @param city - Delivery city from EGYPTIAN_CITIES (null/unknown = national range)
+   * @param orderedAt - Order time (defaults to now) - cutoff and days follow Egypt time
+   */
+  estimate(city: string | null | undefined, orderedAt: Date = new Date()): DeliveryWindow {
+    const zone = this.shippingEstimator.zoneFor(city);
+    const transitDays = zone?.transitDays ?? this.nationalTransitDays;
+
+    const { day: orderDay, hour } = this.toEgyptTime(orderedAt);
+    const dispatchDate = hour < DELIVERY_CUTOFF_HOUR && this.isBusinessDay(orderDay)
+      ? orderDay
+      : this.addBusinessDays(orderDay, 1);
+
+    return {
+      city: zone ? city! : null,
+      dispatchDate,
+      earliest: this.addBusinessDays(dispatchDate, transitDays.min),
+      latest: this.addBusinessDays(dispatchDate, transitDays.max)
+    };
+  }
+
+  /**
+   * Whether orders can be dispatched or delivered on a day
+   * @param date - Egypt calendar day as UTC midnight (see DeliveryWindow)
+   */
+  isBusinessDay(date: Date): boolean {
+    return !WEEKEND_DAYS.includes(date.getUTCDay()) && !PUBLIC_HOLIDAYS.includes(this.toIsoDate(date));
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private addBusinessDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    let remaining = days;
+
+    while (remaining > 0) {
+      result.setUTCDate(result.getUTCDate() + 1);
+      if (this.isBusinessDay(result)) {
+        remaining--;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Egypt calendar day (as UTC midnight) and hour of an instant, whatever the browser's time zone
+   */
+  private toEgyptTime(date: Date): { day: Date; hour: number } {
+    const parts = Object.fromEntries(
+      this.egyptClock.formatToParts(date).map(part => [part.type, part.value])
+    );
+
+    return {
+      day: new Date(Date.UTC(Number(parts['year']), Number(parts['month']) - 1, Number(parts['day']))),
+      hour: Number(parts['hour'])
+    };
+  }
+
+  /**
+   * Calendar day as YYYY-MM-DD
+   */
+  private toIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, forkJoin } from 'rxjs';
+import { map, catchError } from 'rxjs/operators';
+
+import { StorageService } from '../../../core/services/storage';
+import { ProductsService } from '../../products/services/products';
+import { STORAGE_KEYS } from '../../../core/constants/api-endpoints.const';
+import { SavedCartItem, SavedForLaterPersistenceData } from '../models/cart.model';
+import { mapProductToCartProductObject } from '../../../shared/utils/cart.utils';
+
+/**
+ * Saved For Later Service - Persistence and refresh
+ * Saved items live in localStorage only (the API has no saved-for-later endpoint),
+ * one entry per user so a shared browser never mixes lists
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedForLaterService {
+  private readonly storage = inject(StorageService);
+  private readonly productsService = inject(ProductsService);
+
+  /**
+   * Load saved items of a user
+   * @param ownerId - User ID (null = guest)
+   */
+  load(ownerId: string | null): SavedCartItem[] {
+    const data = this.storage.getItem<SavedForLaterPersistenceData>(this.storageKey(ownerId));
+    return Array.isArray(data?.items) ? data.items : [];
+  }
+
+  /**
+   * Save items of a user (an empty list removes the entry)
+   * @param ownerId - User ID (null = guest)
+   */
+  save(ownerId: string | null, items: SavedCartItem[]): void {
+    if (items.length === 0) {
+      this.storage.removeItem(this.storageKey(ownerId));
+      return;
+    }
+
+    const data: SavedForLaterPersistenceData = {
+      items,
+      lastUpdated: Date.now()
+    };
+    this.storage.setItem(this.storageKey(ownerId), data);
+  }
+
+  /**
+   * Refresh stock and price of saved items from current product data
+   * Products are read fresh (not from the response cache); items whose product can't be loaded are kept as they are
+   */
+  refresh(items: SavedCartItem[]): Observable<SavedCartItem[]> {
+    if (items.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(
+      items.map(item =>
+        this.productsService.getProductById(item.product._id, true).pipe(
+          map(product => ({
+            ...item,
+            product: mapProductToCartProductObject(product),
+            unitPrice: product.priceAfterDiscount || product.price
+          })),
+          catchError(error => {
+            console.error(`Failed to refresh saved item ${item.product._id}:`, error);
+            return of(item);
+          })
+        )
+      )
+    );
+  }
+
+  private storageKey(ownerId: string | null): string {
+    return `${STORAGE_KEYS.SAVED_FOR_LATER}_${ownerId ?? 'guest'}`;
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@angular/core';
+
+import { OrderChargeEstimate } from '../models/cart.model';
+import { SHIPPING_ZONES, VAT_RATE } from '../constants/shipping-rates.const';
+
+/**
+ * Shipping zone entry of SHIPPING_ZONES
+ */
+export type ShippingZone = typeof SHIPPING_ZONES[number];
+
+/**
+ * Shipping Estimator Service - Rules-based shipping and tax estimate by city
+ * Rules live in shipping-rates.const.ts: a flat fee per zone, a free-shipping threshold per zone
+ * and one VAT rate on the subtotal
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ShippingEstimatorService {
+  /**
+   * Estimate shipping, tax and grand total
+   * @param subtotal - Payable cart total in EGP (after coupon)
+   * @param city - City from EGYPTIAN_CITIES
+   * @returns Estimate, or null when the city is missing or has no zone
+   */
+  estimate(subtotal: number, city: string | null | undefined): OrderChargeEstimate | null {
+    const zone = this.zoneFor(city);
+    if (!city || !zone) return null;
+
+    const isFreeShipping = subtotal >= zone.freeShippingThreshold;
+    const shipping = isFreeShipping ? 0 : zone.fee;
+    const tax = this.round(subtotal * VAT_RATE);
+
+    return {
+      city,
+      zoneLabelKey: zone.labelKey,
+      subtotal,
+      shipping,
+      isFreeShipping,
+      freeShippingRemaining: isFreeShipping ? 0 : this.round(zone.freeShippingThreshold - subtotal),
+      taxRate: VAT_RATE,
+      tax,
+      grandTotal: this.round(subtotal + shipping + tax)
+    };
+  }
+
+  /**
+   * Delivery zone of a city (undefined when the city is missing or has no zone)
+   */
+  zoneFor(city: string | null | undefined): ShippingZone | undefined {
+    return city ? SHIPPING_ZONES.find(zone => (zone.cities as readonly string[]).includes(city)) : undefined;
+  }
+
+  /**
+   * Round to piasters (2 decimals)
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,97 @@
+import { TestBed } from '@angular/core/testing';
+import { MessageService } from 'primeng/api';
+import { NEVER, of } from 'rxjs';
+
+import { CartStore } from './cart.store';
+import { CartService } from '../services/cart.service';
+import { AuthService } from '../../auth/services/auth';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
+import { CurrencyService } from '../../../core/services/currency';
+import { CartItem } from '../models/cart.model';
+import { Product } from '../../products/models/product.model';
+import { createLocalCartItem } from '../../../shared/utils/cart.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+  return {
+    _id: 'p1',
+    title: 'Milk',
+    slug: 'milk',
+    description: '',
+    quantity: 10,
+    price: 100,
+    sold: 0,
+    imageCover: 'milk.jpg',
+    images: [],
+    ratingsAverage: 4,
+    ratingsQuantity: 1,
+    category: { _id: 'c1', name: 'Dairy', slug: 'dairy', image: '' },
+    brand: { _id: 'b1', name: 'Fresh', slug: 'fresh', image: '' },
+    subcategory: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('CartStore', () => {
+  let store: InstanceType<typeof CartStore>;
+  let currentProduct: Product;
+  let serverLine: CartItem;
+
+  beforeEach(() => {
+    serverLine = createLocalCartItem(product(), 1);
+    currentProduct = product();
+
+    TestBed.configureTestingModule({
+      providers: [
+        MessageService,
+        {
+          provide: CartService,
+          useValue: {
+            loadCartFromStorage: () => [],
+            getCart: () => of({ items: [serverLine], cartId: 'cart1', totalPriceAfterDiscount: null }),
+            getCurrentProducts: (items: CartItem[]) => of(items.map(item => ({ item, product: currentProduct })))
+          }
+        },
+        { provide: AuthService, useValue: { isAuthenticated: () => true, whenAuthReady: () => of(undefined) } },
+        { provide: CrossTabSyncService, useValue: { on: () => NEVER } },
+        { provide: CurrencyService, useValue: { format: (price: number) => `${price}` } }
+      ]
+    });
+    store = TestBed.inject(CartStore);
+  });
+
+  describe('reconcileCart', () => {
+    it('should flag a price change on a server line and block checkout', () => {
+      currentProduct = product({ priceAfterDiscount: 80 });
+
+      store.reconcileCart();
+
+      expect(store.lineChanges()).toEqual([jasmine.objectContaining({ productId: 'p1', previousPrice: 100, price: 80 })]);
+      expect(store.items()[0].unitPrice).toBe(100); // Server price is what checkout charges
+      expect(store.canCheckout()).toBeFalse();
+    });
+
+    it('should not flag an acknowledged price change on the next re-check', () => {
+      currentProduct = product({ priceAfterDiscount: 80 });
+      store.reconcileCart();
+      store.acknowledgeCartChanges();
+
+      store.reconcileCart();
+
+      expect(store.lineChanges()).toEqual([]);
+      expect(store.canCheckout()).toBeTrue();
+    });
+
+    it('should flag the price again when it moves after acknowledgement', () => {
+      currentProduct = product({ priceAfterDiscount: 80 });
+      store.reconcileCart();
+      store.acknowledgeCartChanges();
+
+      currentProduct = product({ priceAfterDiscount: 70 });
+      store.reconcileCart();
+
+      expect(store.lineChanges()).toEqual([jasmine.objectContaining({ previousPrice: 100, price: 70 })]);
+    });
+  });
+});
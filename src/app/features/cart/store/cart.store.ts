@@ -1,4 +1,5 @@
 import { computed, inject } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
 import { 
   patchState, 
   signalStore, 
@@ -9,20 +10,54 @@ import {
 } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { tapResponse } from '@ngrx/operators';
-import { pipe, switchMap, tap, of } from 'rxjs';
+import { 
+  pipe, 
+  switchMap, 
+  mergeMap, 
+  concatMap, 
+  map, 
+  tap, 
+  of, 
+  concat, 
+  last, 
+  filter, 
+  groupBy, 
+  debounceTime, 
+  take, 
+  Observable 
+} from 'rxjs';
 import { MessageService } from 'primeng/api';
 
 import { CartService } from '../services/cart.service';
 import { AuthService } from '../../auth/services/auth';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
+import { CurrencyService } from '../../../core/services/currency';
 import { 
   CartState, 
   CartItem, 
-  CartSummary
+  CartSummary,
+  CartMergeChoice,
+  CartMergeLine,
+  CartMergeState,
+  CartCouponState,
+  CartLineChange,
+  CartReconciliationState,
+  CartQuantityState,
+  CartUndoSnapshot,
+  CartUndoState,
+  CartOperationResult,
+  CartImportLine,
+  CartImportMode,
+  CartImportState
 } from '../models/cart.model';
+import { CART_UNDO_WINDOW_MS } from '../constants/cart-undo.const';
 import { Product } from '../../products/models/product.model';
 import { 
-  mapProductToCartProductObject, 
-  updateItemTotalPrice 
+  createLocalCartItem, 
+  updateItemTotalPrice,
+  buildCartMergePlan,
+  resolveCartMergeConflict,
+  buildCartLineChange
 } from '../../../shared/utils/cart.utils';
 
 /**
@@ -39,7 +74,67 @@ const initialCartState: CartState = {
   isSyncing: false,
   error: null,
   lastUpdated: Date.now(),
-  isAuthenticated: false
+  isAuthenticated: false,
+  totalPriceAfterDiscount: null,
+  couponCode: null
+};
+
+/**
+ * Initial Merge State
+ * Kept out of CartState so cart operation results never reset a pending merge
+ */
+const initialMergeState: CartMergeState = {
+  pendingMerge: null
+};
+
+/**
+ * Initial Coupon State
+ */
+const initialCouponState: CartCouponState = {
+  isApplyingCoupon: false,
+  couponError: null
+};
+
+/**
+ * Initial Quantity State
+ */
+const initialQuantityState: CartQuantityState = {
+  confirmedQuantities: {}
+};
+
+/**
+ * Quantity changes to one product within this window are sent as one PUT
+ */
+const QUANTITY_UPDATE_DEBOUNCE_MS = 400;
+
+/**
+ * Per-product update streams are released after this long without changes
+ * Well above debounce + request time, so a PUT is never in flight when its stream ends
+ */
+const QUANTITY_GROUP_IDLE_MS = 60 * 1000;
+
+/**
+ * Initial Undo State
+ */
+const initialUndoState: CartUndoState = {
+  undoSnapshots: [],
+  isUndoing: false
+};
+
+/**
+ * Initial Import State
+ */
+const initialImportState: CartImportState = {
+  isImporting: false
+};
+
+/**
+ * Initial Reconciliation State
+ */
+const initialReconciliationState: CartReconciliationState = {
+  lineChanges: [],
+  acknowledgedPrices: {},
+  isReconciling: false
 };
 
 /**
@@ -54,17 +149,27 @@ const initialCartState: CartState = {
  * Authentication Flow:
  * - Guest users: Cart stored in localStorage (handled by CartStore)
  * - Authenticated users: Cart stored on server (handled by CartService API)
- * - Login: Syncs local cart to server
+ * - Login: Merges local cart into server cart (conflicting products are resolved by the user)
  * - Logout: Clears cart and loads guest cart from localStorage
+ * - Other tabs: Cart changes made in another tab reload this tab's cart
+ * - Reconciliation: Stock and price re-check on load and before checkout (reconcileCart)
+ * - Undo: Removed lines are kept for CART_UNDO_WINDOW_MS and can be restored (undoRemoval)
+ * - Import: Lines from a share link or export file replace or merge into the cart (importCart)
  */
 export const CartStore = signalStore(
   { providedIn: 'root', protectedState: true },
   
   // 1️⃣ State Management - Simple and clean
   withState(initialCartState),
+  withState(initialMergeState),
+  withState(initialCouponState),
+  withState(initialReconciliationState),
+  withState(initialQuantityState),
+  withState(initialUndoState),
+  withState(initialImportState),
   
   // 2️⃣ Computed Properties - Following documentation patterns  
-  withComputed((state) => ({
+  withComputed((state, currencyService = inject(CurrencyService)) => ({
     // ✅ COMPUTED: Total items and price calculated from items array
     totalItems: computed(() => state.items().reduce((sum, item) => sum + item.quantity, 0)),
     totalPrice: computed(() => state.items().reduce((sum, item) => sum + item.totalPrice, 0)),
@@ -74,10 +179,13 @@ export const CartStore = signalStore(
       const items = state.items();
       const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
       const totalPrice = items.reduce((sum, item) => sum + item.totalPrice, 0);
+      const payableTotal = state.totalPriceAfterDiscount() ?? totalPrice;
       
       return {
         totalItems,
         totalPrice,
+        discount: Math.max(totalPrice - payableTotal, 0),
+        payableTotal,
         isEmpty: totalItems === 0,
         itemsCount: '' // Deprecated - use totalItems with translation in template
       };
@@ -112,119 +220,38 @@ export const CartStore = signalStore(
     // Check if any operations are in progress
     isOperating: computed(() => state.isLoading() || state.isSyncing()),
     
-    // Formatted total price
+    // Check if quantity changes are still waiting for the server
+    hasPendingQuantityUpdates: computed(() => Object.keys(state.confirmedQuantities()).length > 0),
+    
+    // Check if a coupon discount is applied
+    hasCoupon: computed(() => state.totalPriceAfterDiscount() !== null),
+    
+    // Sold-out lines (must be removed before checkout)
+    hasOutOfStockItems: computed(() => state.items().some(item => item.product.quantity <= 0)),
+    
+    // Get the unacknowledged change of a specific product
+    getLineChange: computed(() => (productId: string): CartLineChange | undefined => {
+      return state.lineChanges().find(change => change.productId === productId);
+    }),
+    
+    // Checkout is blocked while changes are unacknowledged or sold-out lines remain
+    canCheckout: computed(() => 
+      !state.isReconciling() &&
+      state.lineChanges().length === 0 &&
+      !state.items().some(item => item.product.quantity <= 0)
+    ),
+    
+    // Products in both the guest and server cart waiting for a merge choice
+    mergeConflicts: computed(() => state.pendingMerge()?.conflicts ?? []),
+    
+    // Formatted total price (selected display currency)
     formattedTotalPrice: computed(() => {
       const price = state.items().reduce((sum, item) => sum + item.totalPrice, 0);
-      return new Intl.NumberFormat('en-EG', {
-        style: 'currency',
-        currency: 'EGP',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0
-      }).format(price);
+      return currencyService.format(price);
     })
   })),
   
-  // 3️⃣ Lifecycle Hooks - Official NgRx SignalStore Pattern
-  withHooks((store) => {
-    const cartService = inject(CartService);
-    const authService = inject(AuthService);
-    
-    return {
-      onInit() {
-        // 👇 Official NgRx initialization pattern - runs when store is created
-        const isAuthenticated = authService.isAuthenticated();
-        patchState(store, { isAuthenticated });
-        
-        if (isAuthenticated) {
-          // Check if there are unsynchronized items in localStorage
-          const localItems = cartService.loadCartFromStorage();
-          
-          if (localItems.length > 0) {
-            // User is authenticated but has local items (race condition scenario)
-            // This happens when:
-            // 1. User logged in and sync started
-            // 2. User refreshed before sync completed
-            // 3. localStorage still has items that weren't synced
-            
-            patchState(store, { isSyncing: true, error: null });
-            
-            // Sync local items first, then load complete cart
-            cartService.syncCartWithServer(localItems).subscribe({
-              next: (result) => {
-                if (result?.success) {
-                  // Sync succeeded - clear localStorage and load from server
-                  cartService.clearCartFromStorage();
-                  
-                  cartService.getCart().subscribe({
-                    next: ({ items, cartId }) => {
-                      patchState(store, {
-                        items,
-                        cartId,
-                        lastUpdated: Date.now(),
-                        isSyncing: false,
-                        error: null
-                      });
-                    },
-                    error: (error) => {
-                      patchState(store, {
-                        error: error.message || 'Failed to load cart after sync',
-                        isSyncing: false
-                      });
-                    }
-                  });
-                } else {
-                  // Sync failed - keep local items and show error
-                  patchState(store, {
-                    items: localItems,
-                    error: result?.message || 'Failed to sync cart',
-                    isSyncing: false
-                  });
-                }
-              },
-              error: (error) => {
-                // Sync failed - keep local items
-                patchState(store, {
-                  items: localItems,
-                  error: error.message || 'Failed to sync cart with server',
-                  isSyncing: false
-                });
-              }
-            });
-          } else {
-            // No local items - just load from API
-            patchState(store, { isLoading: true, error: null });
-            cartService.getCart().subscribe({
-              next: ({ items, cartId }) => {
-                patchState(store, {
-                  items,
-                  cartId,
-                  lastUpdated: Date.now(),
-                  isLoading: false,
-                  error: null
-                });
-              },
-              error: (error) => {
-                patchState(store, {
-                  error: error.message || 'Failed to load cart',
-                  isLoading: false
-                });
-              }
-            });
-          }
-        } else {
-          // Load from localStorage for guest users
-          const items = cartService.loadCartFromStorage();
-          patchState(store, {
-            items,
-            lastUpdated: Date.now(),
-            error: null
-          });
-        }
-      }
-    };
-  }),
-  
-  // 4️⃣ Methods - Following exact documentation patterns
+  // 3️⃣ Methods - Following exact documentation patterns
   withMethods((store, cartService = inject(CartService), authService = inject(AuthService), messageService = inject(MessageService)) => ({
     
     
@@ -236,10 +263,11 @@ export const CartStore = signalStore(
         tap(() => patchState(store, { isLoading: true, error: null })),
         switchMap(() => cartService.getCart().pipe(
           tapResponse({
-            next: ({ items, cartId }) => {
+            next: ({ items, cartId, totalPriceAfterDiscount }) => {
               patchState(store, {
                 items,
                 cartId,
+                totalPriceAfterDiscount,
                 lastUpdated: Date.now(),
                 isLoading: false,
                 error: null
@@ -279,8 +307,14 @@ export const CartStore = signalStore(
           
           if (isAuthenticated) {
             // Authenticated user: use API with proper Observable pattern
-            // Note: API always adds quantity = 1, doesn't accept quantity parameter
+            // Note: API always adds quantity = 1 - larger quantities are set with a follow-up PUT
+            const targetQuantity = store.getProductQuantity()(product._id) + quantity;
+            
             return cartService.addToCart({ productId: product._id }).pipe(
+              switchMap((result) => result?.success && quantity > 1
+                ? cartService.updateCartItem({ productId: product._id, count: targetQuantity.toString() })
+                : of(result)
+              ),
               tapResponse({
                 next: (result) => {
                   if (result?.success && result.cart) {
@@ -348,18 +382,7 @@ export const CartStore = signalStore(
                   );
                 } else {
                   // Add new item - create CartItem from Product for guest user
-                  const now = new Date().toISOString();
-                  const currentPrice = product.priceAfterDiscount || product.price;
-                  const newItem: CartItem = {
-                    _id: `local_${product._id}_${Date.now()}`,
-                    product: mapProductToCartProductObject(product),
-                    quantity,
-                    unitPrice: currentPrice,
-                    totalPrice: currentPrice * quantity,
-                    addedAt: now,
-                    updatedAt: now
-                  };
-                  updatedItems = [...currentItems, newItem];
+                  updatedItems = [...currentItems, createLocalCartItem(product, quantity)];
                 }
               
               patchState(store, {
@@ -411,72 +434,135 @@ export const CartStore = signalStore(
      * Update cart item quantity - Reactive method using rxMethod
      * @param productId - Product ID (works for both authenticated and guest users)
      * @param quantity - New quantity
+     * 
+     * Authenticated users (optimistic):
+     * ✅ The new quantity shows right away - no page-level loading state
+     * ✅ Rapid changes to one product are coalesced into one PUT with the final count
+     * ✅ A failed PUT rolls the product back to its last server-confirmed quantity
      */
     updateCartItem: rxMethod<{ productId: string; quantity: number }>(
       pipe(
-        tap(() => patchState(store, { isLoading: true, error: null })),
-        switchMap(({ productId, quantity }) => {
-          const isAuthenticated = store.isAuthenticated();
+        tap(({ productId, quantity }) => {
+          const currentItems = store.items();
           
-          if (isAuthenticated) {
-            // Authenticated user: use API with productId and count as string
-            return cartService.updateCartItem({ 
-              productId, 
-              count: quantity.toString() 
-            }).pipe(
-              tapResponse({
-                next: (result) => {
-                  if (result?.success && result.cart) {
-                    patchState(store, { ...result.cart });
-                  } else {
-                    patchState(store, {
-                      error: result?.message || 'Failed to update cart item'
-                    });
-                  }
-                },
-                error: (error) => patchState(store, {
-                  error: error instanceof Error ? error.message : 'Failed to update cart item'
-                }),
-                finalize: () => patchState(store, { isLoading: false })
-              })
-            );
-          } else {
-            // Guest user: handle locally with reactive pattern
-            return of({ productId, quantity }).pipe(
-              tap(({ productId, quantity }) => {
+          if (!store.isAuthenticated()) {
+            // Guest user: apply locally right away
+            const updatedItems = quantity <= 0
+              ? currentItems.filter(item => item.product._id !== productId)   // Remove item if quantity is 0 or less
+              : currentItems.map(item => 
+                  item.product._id === productId
+                    ? updateItemTotalPrice({ ...item, quantity })
+                    : item
+                );
+            
+            patchState(store, {
+              items: updatedItems,
+              lastUpdated: Date.now(),
+              error: null
+            });
+            
+            cartService.saveCartToStorage(updatedItems);
+            return;
+          }
+          
+          const item = currentItems.find(item => item.product._id === productId);
+          if (!item) return;
+          
+          // Remember the server-confirmed quantity before the first unsent change
+          const confirmedQuantities = store.confirmedQuantities();
+          
+          patchState(store, {
+            items: currentItems.map(current => 
+              current.product._id === productId
+                ? updateItemTotalPrice({ ...current, quantity })
+                : current
+            ),
+            confirmedQuantities: productId in confirmedQuantities
+              ? confirmedQuantities
+              : { ...confirmedQuantities, [productId]: item.quantity },
+            totalPriceAfterDiscount: null,  // Cart writes drop the coupon
+            couponCode: null,
+            error: null
+          });
+        }),
+        filter(() => store.isAuthenticated()),
+        groupBy(({ productId }) => productId, {
+          duration: (productChanges$) => productChanges$.pipe(debounceTime(QUANTITY_GROUP_IDLE_MS))
+        }),
+        mergeMap((productChanges$) => productChanges$.pipe(
+          debounceTime(QUANTITY_UPDATE_DEBOUNCE_MS),
+          switchMap(({ productId, quantity }) => cartService.updateCartItem({ 
+            productId, 
+            count: quantity.toString() 
+          }).pipe(
+            tapResponse({
+              next: (result) => {
+                const { [productId]: confirmedQuantity, ...otherPending } = store.confirmedQuantities();
                 const currentItems = store.items();
-                let updatedItems: CartItem[];
+                const latestQuantity = currentItems.find(item => item.product._id === productId)?.quantity;
                 
-                if (quantity <= 0) {
-                  // Remove item if quantity is 0 or less
-                  updatedItems = currentItems.filter(item => item.product._id !== productId);
-                } else {
-                  // Update quantity - find by productId
-                  updatedItems = currentItems.map(item => 
-                    item.product._id === productId
-                      ? updateItemTotalPrice({ ...item, quantity })
-                      : item
-                  );
+                if (!result?.success || !result.cart) {
+                  // Roll back to the last server-confirmed quantity
+                  patchState(store, {
+                    items: confirmedQuantity === undefined ? currentItems : currentItems.map(item => 
+                      item.product._id === productId
+                        ? updateItemTotalPrice({ ...item, quantity: confirmedQuantity })
+                        : item
+                    ),
+                    confirmedQuantities: otherPending,
+                    error: result?.message || 'Failed to update cart item'
+                  });
+                  
+                  messageService.add({
+                    severity: 'error',
+                    summary: 'Quantity Not Updated',
+                    detail: result?.message || 'Failed to update cart item',
+                    life: 3000
+                  });
+                  return;
                 }
                 
-                patchState(store, {
-                  items: updatedItems,
-                  lastUpdated: Date.now(),
-                  error: null
+                // This product is still pending if it changed again after the PUT was sent
+                const stillPending = latestQuantity !== undefined && latestQuantity !== quantity;
+                const confirmedQuantities = stillPending 
+                  ? { ...otherPending, [productId]: quantity } 
+                  : otherPending;
+                
+                // Server cart, with the optimistic quantities of still pending products kept on top
+                const items = result.cart.items.map(serverItem => {
+                  const pendingItem = serverItem.product._id in confirmedQuantities
+                    ? currentItems.find(item => item.product._id === serverItem.product._id)
+                    : undefined;
+                  return pendingItem 
+                    ? updateItemTotalPrice({ ...serverItem, quantity: pendingItem.quantity }) 
+                    : serverItem;
                 });
                 
-                cartService.saveCartToStorage(updatedItems);
-              }),
-              tapResponse({
-                next: () => {}, // Success handled in tap above
-                error: (error) => patchState(store, {
+                patchState(store, { ...result.cart, items, confirmedQuantities });
+              },
+              error: (error) => {
+                const { [productId]: confirmedQuantity, ...otherPending } = store.confirmedQuantities();
+                
+                patchState(store, {
+                  items: confirmedQuantity === undefined ? store.items() : store.items().map(item => 
+                    item.product._id === productId
+                      ? updateItemTotalPrice({ ...item, quantity: confirmedQuantity })
+                      : item
+                  ),
+                  confirmedQuantities: otherPending,
                   error: error instanceof Error ? error.message : 'Failed to update cart item'
-                }),
-                finalize: () => patchState(store, { isLoading: false })
-              })
-            );
-          }
-        })
+                });
+                
+                messageService.add({
+                  severity: 'error',
+                  summary: 'Quantity Not Updated',
+                  detail: error instanceof Error ? error.message : 'Failed to update cart item',
+                  life: 3000
+                });
+              }
+            })
+          ))
+        ))
       )
     ),
     
@@ -591,15 +677,124 @@ export const CartStore = signalStore(
       )
     ),
     
+    /**
+     * Import shared lines into the cart - Reactive method using rxMethod
+     * @param lines - Previewed lines (CartShareService.loadPreview); missing and sold-out products are skipped
+     * @param mode - replace: cart becomes the imported lines / merge: quantities are added (clamped to stock)
+     * 
+     * ✅ Authenticated: adds + updates through CartService.applyCartMerge (replace clears the server cart first)
+     * ✅ Guest: lines written to localStorage
+     */
+    importCart: rxMethod<{ lines: CartImportLine[]; mode: CartImportMode }>(
+      pipe(
+        tap(() => patchState(store, { isImporting: true, error: null })),
+        concatMap(({ lines, mode }) => {
+          const available = lines.filter(
+            (line): line is CartImportLine & { product: Product } =>
+              !!line.product && line.product.quantity > 0 && line.quantity > 0
+          );
+          const currentQuantity = (productId: string) => mode === 'merge'
+            ? store.items().find(item => item.product._id === productId)?.quantity ?? 0
+            : 0;
+          const targetQuantity = (line: CartImportLine & { product: Product }) =>
+            Math.min(currentQuantity(line.productId) + line.quantity, line.product.quantity);
+          
+          if (!store.isAuthenticated()) {
+            // Guest user: build the new cart locally
+            const baseItems = mode === 'merge' ? store.items() : [];
+            const importedIds = new Set(available.map(line => line.productId));
+            const items = [
+              ...baseItems.map(item => {
+                const line = available.find(line => line.productId === item.product._id);
+                return line ? updateItemTotalPrice({ ...item, quantity: targetQuantity(line) }) : item;
+              }),
+              ...available
+                .filter(line => !baseItems.some(item => item.product._id === line.productId))
+                .map(line => createLocalCartItem(line.product, targetQuantity(line)))
+            ];
+            
+            patchState(store, {
+              items,
+              cartId: mode === 'merge' ? store.cartId() : null,
+              isImporting: false,
+              lastUpdated: Date.now()
+            });
+            
+            cartService.saveCartToStorage(items);
+            
+            messageService.add({
+              severity: 'success',
+              summary: 'Cart Imported',
+              detail: `${importedIds.size} product${importedIds.size !== 1 ? 's' : ''} added to your cart`,
+              life: 3000
+            });
+            return of(null);
+          }
+          
+          // Authenticated user: replay the adds + updates (replace starts from an empty server cart)
+          const mergeLines: CartMergeLine[] = available.map(line => ({
+            productId: line.productId,
+            count: targetQuantity(line),
+            serverCount: currentQuantity(line.productId)
+          }));
+          
+          const cleared$: Observable<CartOperationResult> = mode === 'replace' && store.items().length > 0
+            ? cartService.clearCart()
+            : of({ success: true, message: 'Nothing to clear' });
+          
+          return cleared$.pipe(
+            switchMap((cleared) => cleared.success 
+              ? cartService.applyCartMerge(mergeLines) 
+              : of(cleared)
+            ),
+            tapResponse({
+              next: (result) => {
+                if (result?.success && result.cart) {
+                  patchState(store, { ...result.cart });
+                  
+                  messageService.add({
+                    severity: 'success',
+                    summary: 'Cart Imported',
+                    detail: `${mergeLines.length} product${mergeLines.length !== 1 ? 's' : ''} added to your cart`,
+                    life: 3000
+                  });
+                  return;
+                }
+                
+                patchState(store, {
+                  error: result?.message || 'Failed to import cart'
+                });
+                
+                messageService.add({
+                  severity: 'error',
+                  summary: 'Import Failed',
+                  detail: result?.message || 'Failed to import cart',
+                  life: 3000
+                });
+              },
+              error: (error) => patchState(store, {
+                error: error instanceof Error ? error.message : 'Failed to import cart'
+              }),
+              finalize: () => patchState(store, { isImporting: false })
+            })
+          );
+        })
+      )
+    ),
+    
     /**
      * Handle authentication state changes - Simple method
+     * @param fromOtherTab - Login happened in another tab, which owns the guest cart sync
      */
-    onAuthenticationChange(isAuthenticated: boolean): void {
+    onAuthenticationChange(isAuthenticated: boolean, fromOtherTab = false): void {
       const wasAuthenticated = store.isAuthenticated();
       
       patchState(store, { isAuthenticated });
       
-      if (!wasAuthenticated && isAuthenticated) {
+      if (!wasAuthenticated && isAuthenticated && fromOtherTab) {
+        // Logged in from another tab - just load the server cart
+        this.loadCartFromApi();
+      } else if (!wasAuthenticated && isAuthenticated) {
         // User just logged in - sync local cart with server
         this.syncCartWithServer();
       } else if (wasAuthenticated && !isAuthenticated) {
@@ -607,6 +802,14 @@ export const CartStore = signalStore(
         patchState(store, {
           items: [],
           cartId: null,
+          totalPriceAfterDiscount: null,
+          couponCode: null,
+          lineChanges: [],
+          acknowledgedPrices: {},
+          confirmedQuantities: {},
+          undoSnapshots: [],
+          pendingMerge: null,
+          isSyncing: false,
           error: null,
           lastUpdated: Date.now()
         });
@@ -623,58 +826,502 @@ export const CartStore = signalStore(
     },
     
     /**
-     * Sync cart with server - Reactive method
-     * ✅ OPTIMIZED: Flattened observable chain for better readability
+     * Merge guest cart into server cart (on login, or after a refresh interrupted the login sync)
+     * Guest-only products are merged right away; products already in the server cart
+     * wait for the user's choice (CartMergeDialogComponent → resolveMerge / dismissMerge)
      */
-    syncCartWithServer: rxMethod<void>(
+    syncCartWithServer(): void {
+      const localItems = store.items();
+      patchState(store, { isSyncing: true, error: null });
+      
+      cartService.getCart().subscribe({
+        next: ({ items }) => {
+          const plan = buildCartMergePlan(localItems, items);
+          
+          if (plan.conflicts.length > 0) {
+            patchState(store, { pendingMerge: plan });
+          } else {
+            this.applyMerge(plan.lines);
+          }
+        },
+        // Guest cart stays in localStorage - the next load retries the merge
+        error: (error: Error) => patchState(store, {
+          error: error.message || 'Failed to sync cart with server',
+          isSyncing: false
+        })
+      });
+    },
+    
+    /**
+     * Resolve the pending merge with one choice per conflicting product
+     * @param choices - Choice by product ID (missing products keep both quantities)
+     */
+    resolveMerge(choices: Record<string, CartMergeChoice>): void {
+      const plan = store.pendingMerge();
+      if (!plan) return;
+      
+      this.applyMerge([
+        ...plan.lines,
+        ...plan.conflicts.map(conflict => 
+          resolveCartMergeConflict(conflict, choices[conflict.product._id] ?? 'both')
+        )
+      ]);
+    },
+    
+    /**
+     * Dismiss the merge dialog - conflicting products keep their account quantity
+     * Guest-only products are still added
+     */
+    dismissMerge(): void {
+      const plan = store.pendingMerge();
+      if (!plan) return;
+      
+      this.resolveMerge(Object.fromEntries(
+        plan.conflicts.map(conflict => [conflict.product._id, 'server' as const])
+      ));
+    },
+    
+    /**
+     * Apply merged quantities to the server cart - Reactive method
+     * ✅ Guest cart is dropped from localStorage once the server holds the merged cart
+     */
+    applyMerge: rxMethod<CartMergeLine[]>(
       pipe(
-        tap(() => patchState(store, { isSyncing: true, error: null })),
+        tap(() => patchState(store, { pendingMerge: null, isSyncing: true, error: null })),
+        switchMap((lines) => cartService.applyCartMerge(lines).pipe(
+          tapResponse({
+            next: (result) => {
+              if (result.cart) {
+                // Merged (fully or partly) - server cart is now the source of truth
+                cartService.clearCartFromStorage();
+                patchState(store, {
+                  ...result.cart,
+                  error: result.success ? null : result.message || 'Failed to sync cart'
+                });
+              } else {
+                patchState(store, {
+                  error: result.message || 'Failed to sync cart',
+                  isSyncing: false
+                });
+              }
+            },
+            error: (error: Error) => {
+              patchState(store, {
+                error: error.message || 'Failed to sync cart with server',
+                isSyncing: false
+              });
+            }
+          })
+        ))
+      )
+    ),
+    
+    /**
+     * Apply a coupon code - Reactive method
+     * ✅ Errors go to couponError (shown by the coupon form), not the cart error banner
+     */
+    applyCoupon: rxMethod<string>(
+      pipe(
+        tap(() => patchState(store, { isApplyingCoupon: true, couponError: null })),
+        switchMap((couponName) => cartService.applyCoupon({ couponName }).pipe(
+          tapResponse({
+            next: (result) => {
+              if (result?.success && result.cart) {
+                patchState(store, { ...result.cart });
+                
+                messageService.add({
+                  severity: 'success',
+                  summary: 'Coupon Applied',
+                  detail: `Coupon ${couponName} has been applied to your cart`,
+                  life: 3000
+                });
+              } else {
+                patchState(store, {
+                  couponError: result?.message || 'Failed to apply coupon'
+                });
+              }
+            },
+            error: (error) => patchState(store, {
+              couponError: error instanceof Error ? error.message : 'Failed to apply coupon'
+            }),
+            finalize: () => patchState(store, { isApplyingCoupon: false })
+          })
+        ))
+      )
+    ),
+    
+    /**
+     * Remove the applied coupon - Reactive method
+     * ✅ Empty cart: no server line carries the discount, so it is only dropped locally
+     * ⚠️ Otherwise relies on CartService.removeCoupon (one line rewritten with its current count)
+     */
+    removeCoupon: rxMethod<void>(
+      pipe(
+        tap(() => patchState(store, { isApplyingCoupon: true, couponError: null })),
         switchMap(() => {
-          const localItems = store.items();
-          return cartService.syncCartWithServer(localItems);
-        }),
-        switchMap((result) => {
-          if (!result?.success) {
-            // Sync failed - update error state
-            patchState(store, {
-              error: result?.message || 'Failed to sync cart',
-              isSyncing: false
+          const anchor = store.items()[0];
+          
+          if (!anchor) {
+            patchState(store, { 
+              totalPriceAfterDiscount: null, 
+              couponCode: null, 
+              isApplyingCoupon: false 
             });
             return of(null);
           }
           
-          // Sync succeeded - clear local storage and reload cart
-          cartService.clearCartFromStorage();
-          return cartService.getCart();
-        }),
-        tapResponse({
-          next: (cartData) => {
-            if (cartData) {
-              const { items, cartId } = cartData;
-              patchState(store, {
-                items,
-                cartId,
-                lastUpdated: Date.now(),
-                isSyncing: false,
-                error: null
-              });
-            }
-          },
-          error: (error: Error) => {
+          return cartService.removeCoupon(anchor).pipe(
+            tapResponse({
+              next: (result) => {
+                if (result?.success && result.cart) {
+                  patchState(store, { ...result.cart });
+                } else {
+                  patchState(store, {
+                    couponError: result?.message || 'Failed to remove coupon'
+                  });
+                }
+              },
+              error: (error) => patchState(store, {
+                couponError: error instanceof Error ? error.message : 'Failed to remove coupon'
+              }),
+              finalize: () => patchState(store, { isApplyingCoupon: false })
+            })
+          );
+        })
+      )
+    ),
+    
+    /**
+     * Re-check cart lines against current stock and prices - Reactive method
+     * ✅ Quantities above the stock are clamped (PUT for server carts, localStorage for guests)
+     * ✅ Price changes are flagged for every cart; guest lines adopt the current price,
+     *    server lines keep the price stored by the API (that is what checkout charges)
+     * ✅ Changes stay in lineChanges until acknowledgeCartChanges()
+     * ✅ Acknowledged prices are not reported again - server lines keep their old
+     *    unitPrice, so without this every re-check (cart page, then checkout) would block checkout again
+     */
+    reconcileCart: rxMethod<void>(
+      pipe(
+        tap(() => patchState(store, { isReconciling: true })),
+        switchMap(() => cartService.getCurrentProducts(store.items()).pipe(
+          switchMap((lines) => {
+            const isAuthenticated = store.isAuthenticated();
+            const changes = lines
+              .map(({ item, product }) => buildCartLineChange(item, product, store.acknowledgedPrices()[product._id]))
+              .filter((change): change is CartLineChange => change !== null);
+            
+            // Refresh stock on every checked line, then apply clamped quantities and new prices
+            const items = store.items().map(item => {
+              const line = lines.find(({ product }) => product._id === item.product._id);
+              if (!line) return item;
+              
+              const refreshed = { ...item, product: { ...item.product, quantity: line.product.quantity } };
+              const change = changes.find(({ productId }) => productId === item.product._id);
+              return change
+                ? updateItemTotalPrice({
+                    ...refreshed,
+                    quantity: change.quantity,
+                    unitPrice: isAuthenticated ? item.unitPrice : change.price
+                  })
+                : refreshed;
+            });
+            
             patchState(store, {
-              error: error.message || 'Failed to sync cart with server',
-              isSyncing: false
+              items,
+              lineChanges: [
+                ...store.lineChanges().filter(existing => !changes.some(change => change.productId === existing.productId)),
+                ...changes
+              ]
             });
-          }
-        })
+            
+            if (!isAuthenticated) {
+              if (changes.length > 0) cartService.saveCartToStorage(items);
+              return of(null);
+            }
+            
+            // Server cart: clamp one line at a time - the last response holds the final cart
+            const clamped = changes.filter(change => change.quantity !== change.previousQuantity);
+            return clamped.length > 0
+              ? concat(...clamped.map(change => cartService.updateCartItem({
+                  productId: change.productId,
+                  count: change.quantity.toString()
+                }))).pipe(last())
+              : of(null);
+          }),
+          tapResponse({
+            next: (result) => {
+              if (result && !result.success) {
+                patchState(store, {
+                  error: result.message || 'Failed to update cart quantities',
+                  isReconciling: false
+                });
+              } else {
+                patchState(store, { ...result?.cart, isReconciling: false });
+              }
+            },
+            error: (error) => patchState(store, {
+              error: error instanceof Error ? error.message : 'Failed to check cart items',
+              isReconciling: false
+            })
+          })
+        ))
       )
     ),
     
+    /**
+     * Accept the changes found by reconcileCart - Simple method
+     * Price changes are remembered so the next re-check doesn't flag them again
+     */
+    acknowledgeCartChanges(): void {
+      const acknowledgedPrices = store.lineChanges()
+        .filter(change => change.price !== change.previousPrice)
+        .reduce((prices, change) => ({ ...prices, [change.productId]: change.price }), store.acknowledgedPrices());
+      
+      patchState(store, { lineChanges: [], acknowledgedPrices });
+    },
+    
+    /**
+     * Clear the coupon form error - Simple method
+     */
+    clearCouponError(): void {
+      patchState(store, { couponError: null });
+    },
+    
     /**
      * Clear any error messages - Simple method
      */
     clearError(): void {
       patchState(store, { error: null });
     }
-  }))
-);
\ No newline at end of file
+  })),
+  
+  // 4️⃣ Undo Methods - Built on removeFromCart / clearCart
+  withMethods((store, cartService = inject(CartService), messageService = inject(MessageService)) => {
+    // A signed-in removal stays in store.items() until its DELETE returns - undo waits for it to settle
+    const isLoading$ = toObservable(store.isLoading);
+    
+    /**
+     * Keep removed lines for the undo window (expired snapshots are pruned)
+     */
+    const recordUndoSnapshot = (action: CartUndoSnapshot['action'], items: CartItem[]): CartUndoSnapshot => {
+      const now = Date.now();
+      const snapshot: CartUndoSnapshot = {
+        id: `${now.toString(36)}-${Math.random().toString(36).slice(2)}`,
+        action,
+        items,
+        expiresAt: now + CART_UNDO_WINDOW_MS
+      };
+    
+      patchState(store, {
+        undoSnapshots: [...store.undoSnapshots().filter(s => s.expiresAt > now), snapshot]
+      });
+      return snapshot;
+    };
+    
+    return {
+      /**
+       * Remove a line and keep it for undo
+       * @returns Snapshot to pass to undoRemoval, or null if the product is not in the cart
+       */
+      removeWithUndo(productId: string): CartUndoSnapshot | null {
+        const item = store.items().find(item => item.product._id === productId);
+        if (!item) return null;
+      
+        const snapshot = recordUndoSnapshot('remove', [item]);
+        store.removeFromCart(productId);
+        return snapshot;
+      },
+    
+      /**
+       * Clear the cart and keep every line for undo
+       * @returns Snapshot to pass to undoRemoval, or null if the cart is already empty
+       */
+      clearWithUndo(): CartUndoSnapshot | null {
+        const items = store.items();
+        if (items.length === 0) return null;
+      
+        const snapshot = recordUndoSnapshot('clear', items);
+        store.clearCart();
+        return snapshot;
+      },
+    
+      /**
+       * Forget a snapshot (its undo toast was closed)
+       */
+      discardUndo(snapshotId: string): void {
+        patchState(store, {
+          undoSnapshots: store.undoSnapshots().filter(snapshot => snapshot.id !== snapshotId)
+        });
+      },
+    
+      /**
+       * Restore the lines of an undo snapshot - Reactive method using rxMethod
+       * @param snapshotId - Snapshot ID from removeWithUndo / clearWithUndo
+       * 
+       * ✅ Lines are restored to at least their quantity at removal time
+       * ✅ Waits for the pending remove/clear to settle (signed-in removals are not optimistic)
+       * ✅ Authenticated: adds + updates replayed against the server (CartService.applyCartMerge)
+       * ✅ Guest: lines put back into localStorage
+       * ⚠️ Expired snapshots are ignored
+       */
+      undoRemoval: rxMethod<string>(
+        pipe(
+          map((snapshotId) => store.undoSnapshots().find(snapshot => snapshot.id === snapshotId)),
+          filter((snapshot): snapshot is CartUndoSnapshot => !!snapshot && snapshot.expiresAt > Date.now()),
+          tap((snapshot) => patchState(store, {
+            undoSnapshots: store.undoSnapshots().filter(s => s.id !== snapshot.id),
+            isUndoing: true,
+            error: null
+          })),
+          // Queue behind a pending remove/clear - replaying before its response would be undone by it
+          concatMap((snapshot) => isLoading$.pipe(
+            filter(isLoading => !isLoading),
+            take(1),
+            map(() => snapshot)
+          )),
+          concatMap((snapshot) => {
+            const currentItems = store.items();
+            const currentQuantity = (productId: string) => 
+              currentItems.find(item => item.product._id === productId)?.quantity ?? 0;
+          
+            if (!store.isAuthenticated()) {
+              // Guest user: raise lines still in the cart, append the rest
+              const restoredItems = [
+                ...currentItems.map(item => {
+                  const removed = snapshot.items.find(s => s.product._id === item.product._id);
+                  return removed && removed.quantity > item.quantity
+                    ? updateItemTotalPrice({ ...item, quantity: removed.quantity })
+                    : item;
+                }),
+                ...snapshot.items.filter(removed => currentQuantity(removed.product._id) === 0)
+              ];
+            
+              patchState(store, {
+                items: restoredItems,
+                isUndoing: false,
+                lastUpdated: Date.now()
+              });
+            
+              cartService.saveCartToStorage(restoredItems);
+              return of(null);
+            }
+          
+            // Authenticated user: replay the adds + updates
+            const lines: CartMergeLine[] = snapshot.items.map(item => ({
+              productId: item.product._id,
+              count: Math.max(item.quantity, currentQuantity(item.product._id)),
+              serverCount: currentQuantity(item.product._id)
+            }));
+          
+            return cartService.applyCartMerge(lines).pipe(
+              tapResponse({
+                next: (result) => {
+                  if (result?.success && result.cart) {
+                    patchState(store, { ...result.cart });
+                    return;
+                  }
+                
+                  patchState(store, {
+                    error: result?.message || 'Failed to restore cart items'
+                  });
+                
+                  messageService.add({
+                    severity: 'error',
+                    summary: 'Undo Failed',
+                    detail: result?.message || 'Failed to restore cart items',
+                    life: 3000
+                  });
+                },
+                error: (error) => patchState(store, {
+                  error: error instanceof Error ? error.message : 'Failed to restore cart items'
+                }),
+                finalize: () => patchState(store, { isUndoing: false })
+              })
+            );
+          })
+        )
+      )
+    };
+  }),
+  
+  // 5️⃣ Lifecycle Hooks - Official NgRx SignalStore Pattern
+  withHooks((store) => {
+    const cartService = inject(CartService);
+    const authService = inject(AuthService);
+    const crossTabSync = inject(CrossTabSyncService);
+    
+    return {
+      onInit() {
+        // 👇 Official NgRx initialization pattern - runs when store is created
+        patchState(store, { isAuthenticated: authService.isAuthenticated() });
+        
+        // Wait for token verification before loading - a rejected token must never be used to sync
+        authService.whenAuthReady().subscribe(() => {
+          const isAuthenticated = authService.isAuthenticated();
+          patchState(store, { isAuthenticated });
+          
+          if (isAuthenticated) {
+            // Check if there are unsynchronized items in localStorage
+            const localItems = cartService.loadCartFromStorage();
+            
+            if (localItems.length > 0) {
+              // User is authenticated but has local items (race condition scenario)
+              // This happens when:
+              // 1. User logged in and sync started
+              // 2. User refreshed before sync completed
+              // 3. localStorage still has items that weren't synced
+              // Same merge as on login - conflicting products open the merge dialog
+              patchState(store, { items: localItems });
+              store.syncCartWithServer();
+            } else {
+              // No local items - just load from API
+              patchState(store, { isLoading: true, error: null });
+              cartService.getCart().subscribe({
+                next: ({ items, cartId, totalPriceAfterDiscount }) => {
+                  patchState(store, {
+                    items,
+                    cartId,
+                    totalPriceAfterDiscount,
+                    lastUpdated: Date.now(),
+                    isLoading: false,
+                    error: null
+                  });
+                },
+                error: (error) => {
+                  patchState(store, {
+                    error: error.message || 'Failed to load cart',
+                    isLoading: false
+                  });
+                }
+              });
+            }
+          } else {
+            // Load from localStorage for guest users
+            const items = cartService.loadCartFromStorage();
+            patchState(store, {
+              items,
+              lastUpdated: Date.now(),
+              error: null
+            });
+          }
+        });
+        
+        // Follow cart changes made in other tabs
+        // Reload only - reloading never publishes, so tabs don't ping-pong
+        crossTabSync.on('cart:changed').pipe(
+          switchMap(() => store.isAuthenticated()
+            ? cartService.getCart()
+            : of({ items: cartService.loadCartFromStorage(), cartId: null, totalPriceAfterDiscount: null })
+          )
+        ).subscribe(({ items, cartId, totalPriceAfterDiscount }) => {
+          patchState(store, {
+            items,
+            cartId,
+            totalPriceAfterDiscount,
+            lastUpdated: Date.now()
+          });
+        });
+      }
+    };
+  })
+);
@@ -0,0 +1,181 @@
+import { computed, inject } from '@angular/core';
+import { 
+  patchState, 
+  signalStore, 
+  withComputed, 
+  withHooks,
+  withMethods, 
+  withState 
+} from '@ngrx/signals';
+import { rxMethod } from '@ngrx/signals/rxjs-interop';
+import { tapResponse } from '@ngrx/operators';
+import { pipe, mergeMap, switchMap, tap, map, distinctUntilChanged } from 'rxjs';
+import { MessageService } from 'primeng/api';
+
+import { CartStore } from './cart.store';
+import { SavedForLaterService } from '../services/saved-for-later.service';
+import { ProductsService } from '../../products/services/products';
+import { AuthService } from '../../auth/services/auth';
+import { CartItem, SavedCartItem, SavedForLaterState } from '../models/cart.model';
+
+/**
+ * Initial Saved For Later State
+ */
+const initialSavedForLaterState: SavedForLaterState = {
+  items: [],
+  ownerId: null,
+  isRefreshing: false,
+  movingProductIds: []
+};
+
+/**
+ * SavedForLaterStore - NgRx SignalStore Implementation
+ * "Saved for later" section of the cart page - items parked outside the cart
+ * 
+ * - Persisted per user in localStorage (SavedForLaterService), guests have their own list
+ * - Switches lists on login/logout and refreshes stock and prices on every load
+ * - Moving an item back adds it to CartStore with the saved quantity
+ */
+export const SavedForLaterStore = signalStore(
+  { providedIn: 'root', protectedState: true },
+  
+  // 1️⃣ State Management
+  withState(initialSavedForLaterState),
+  
+  // 2️⃣ Computed Properties
+  withComputed((state) => ({
+    count: computed(() => state.items().length),
+    isEmpty: computed(() => state.items().length === 0),
+    
+    // Check if specific product is being moved back to the cart
+    isProductMoving: computed(() => (productId: string): boolean => {
+      return state.movingProductIds().includes(productId);
+    })
+  })),
+  
+  // 3️⃣ Lifecycle Hooks
+  withHooks((store) => {
+    const authService = inject(AuthService);
+    const savedForLaterService = inject(SavedForLaterService);
+    
+    return {
+      onInit() {
+        // Load the list of whoever is signed in (after token verification), then refresh it
+        authService.whenAuthReady().pipe(
+          switchMap(() => authService.isAuthenticated$),
+          map(() => authService.getCurrentUserId()),
+          distinctUntilChanged(),
+          tap((ownerId) => patchState(store, {
+            ownerId,
+            items: savedForLaterService.load(ownerId),
+            isRefreshing: true
+          })),
+          switchMap(() => savedForLaterService.refresh(store.items()))
+        ).subscribe((refreshed) => {
+          // Apply fresh product data to the current list (it may have changed while refreshing)
+          const items = store.items().map(item => {
+            const fresh = refreshed.find(refreshedItem => refreshedItem.product._id === item.product._id);
+            return fresh ? { ...item, product: fresh.product, unitPrice: fresh.unitPrice } : item;
+          });
+          
+          patchState(store, { items, isRefreshing: false });
+          savedForLaterService.save(store.ownerId(), items);
+        });
+      }
+    };
+  }),
+  
+  // 4️⃣ Methods
+  withMethods((
+    store, 
+    savedForLaterService = inject(SavedForLaterService), 
+    productsService = inject(ProductsService),
+    cartStore = inject(CartStore),
+    messageService = inject(MessageService)
+  ) => {
+    const setItems = (items: SavedCartItem[]): void => {
+      patchState(store, { items });
+      savedForLaterService.save(store.ownerId(), items);
+    };
+    
+    return {
+      /**
+       * Move a cart line to "saved for later"
+       * Saving a product that is already saved adds the quantities
+       */
+      saveForLater(item: CartItem): void {
+        const existing = store.items().find(saved => saved.product._id === item.product._id);
+        
+        setItems(existing
+          ? store.items().map(saved => saved.product._id === item.product._id
+              ? { ...saved, quantity: saved.quantity + item.quantity, unitPrice: item.unitPrice }
+              : saved)
+          : [...store.items(), {
+              product: item.product,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              savedAt: new Date().toISOString()
+            }]
+        );
+        
+        cartStore.removeFromCart(item.product._id);
+      },
+      
+      /**
+       * Move a saved item back to the cart - Reactive method
+       * ✅ Uses the current product (CartStore.addToCart needs a full Product)
+       * ✅ Saved quantity is clamped to the available stock
+       */
+      moveToCart: rxMethod<string>(
+        pipe(
+          tap((productId) => patchState(store, { 
+            movingProductIds: [...store.movingProductIds(), productId] 
+          })),
+          mergeMap((productId) => productsService.getProductById(productId, true).pipe(
+            tapResponse({
+              next: (product) => {
+                const saved = store.items().find(item => item.product._id === productId);
+                if (!saved) return;
+                
+                if (product.quantity <= 0) {
+                  setItems(store.items().map(item => item.product._id === productId
+                    ? { ...item, product: { ...item.product, quantity: 0 } }
+                    : item));
+                  
+                  messageService.add({
+                    severity: 'warn',
+                    summary: 'Out of Stock',
+                    detail: `${product.title} is currently out of stock`,
+                    life: 3000
+                  });
+                  return;
+                }
+                
+                cartStore.addToCart({ product, quantity: Math.min(saved.quantity, product.quantity) });
+                setItems(store.items().filter(item => item.product._id !== productId));
+              },
+              error: (error: Error) => {
+                messageService.add({
+                  severity: 'error',
+                  summary: 'Error',
+                  detail: error.message || 'Failed to move item to cart',
+                  life: 3000
+                });
+              },
+              finalize: () => patchState(store, {
+                movingProductIds: store.movingProductIds().filter(id => id !== productId)
+              })
+            })
+          ))
+        )
+      ),
+      
+      /**
+       * Remove a saved item for good
+       */
+      removeSavedItem(productId: string): void {
+        setItems(store.items().filter(item => item.product._id !== productId));
+      }
+    };
+  })
+);
@@ -22,6 +22,7 @@ import { ChipModule } from 'primeng/chip';
 import { ProductsService } from '../../services/products';
 import { Product, ProductDetails } from '../../models/product.model';
 import { ProductCard } from '../../../../shared/components/product-card/product-card';
+import { DeliveryEstimateComponent } from '../../../cart/components/delivery-estimate/delivery-estimate';
 import { CartStore } from '../../../cart/store/cart.store';
 
 interface GalleryImage {
@@ -54,7 +55,8 @@ interface GalleryImage {
     CardModule,
     ChipModule,
     // Shared
-    ProductCard
+    ProductCard,
+    DeliveryEstimateComponent
   ],
   templateUrl: './product-details.html',
   styleUrl: './product-details.scss'
@@ -24,6 +24,7 @@ import { DrawerModule } from 'primeng/drawer';
 import { ProductsService } from '../../services/products';
 import { Product, ProductQueryParams, ProductFilters } from '../../models/product.model';
 import { ProductCard } from '../../../../shared/components/product-card/product-card';
+import { CurrencyFormatPipe } from '../../../../shared/pipes/currency-format-pipe';
 import { SEARCH_SORT_OPTIONS } from '../../constants/product-sort-options.const';
 
 /**
@@ -37,6 +38,7 @@ import { SEARCH_SORT_OPTIONS } from '../../constants/product-sort-options.const'
     ReactiveFormsModule,
     FormsModule,
     TranslateModule,
+    CurrencyFormatPipe,
     // PrimeNG
     AutoCompleteModule,
     ButtonModule,
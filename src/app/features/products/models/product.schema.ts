@@ -0,0 +1,41 @@
+// Product Schemas - Runtime validation for product.model.ts
+// Only fields the UI relies on are checked; extra fields are allowed
+
+import { s } from '../../../shared/utils/schema.utils';
+
+/**
+ * Embedded reference schema (category / brand inside a product)
+ */
+const referenceSchema = s.object({
+  _id: s.string(),
+  name: s.string(),
+  slug: s.string(),
+  image: s.string()
+});
+
+/**
+ * Product Schema
+ * Based on real API response: GET /api/v1/products/{id}
+ */
+export const productSchema = s.object({
+  _id: s.string(),
+  title: s.string(),
+  slug: s.string(),
+  description: s.string(),
+  quantity: s.number(),
+  price: s.number(),
+  priceAfterDiscount: s.optional(s.number()),
+  sold: s.optional(s.number()),
+  imageCover: s.string(),
+  images: s.array(s.string()),
+  ratingsAverage: s.number(),
+  ratingsQuantity: s.number(),
+  category: referenceSchema,
+  brand: referenceSchema,
+  subcategory: s.array(s.object({
+    _id: s.string(),
+    name: s.string(),
+    slug: s.string(),
+    category: s.string()
+  }))
+});
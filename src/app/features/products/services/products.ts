@@ -3,13 +3,16 @@ import { Observable, of } from 'rxjs';
 import { map } from 'rxjs/operators';
 
 import { ApiService } from '../../../core/services/api';
+import { CurrencyService } from '../../../core/services/currency';
 import { PRODUCT_ENDPOINTS } from '../../../core/constants/api-endpoints.const';
 import { CollectionResponse, SingleItemResponse } from '../../../core/models/api-response.model';
+import { collectionResponseSchema, singleItemResponseSchema } from '../../../core/models/api-response.schema';
 import { 
   Product, 
   ProductQueryParams, 
   ProductDetails
 } from '../models/product.model';
+import { productSchema } from '../models/product.schema';
 
 /**
  * Products Service - Pure Products Domain
@@ -22,21 +25,28 @@ import {
 })
 export class ProductsService {
   private readonly api = inject(ApiService);
+  private readonly currencyService = inject(CurrencyService);
 
   /**
    * Get all products with filtering and pagination
    * API: GET /api/v1/products
    */
   getProducts(params?: ProductQueryParams): Observable<CollectionResponse<Product>> {
-    return this.api.getCollection<Product>(PRODUCT_ENDPOINTS.GET_ALL, params);
+    return this.api.getCollection<Product>(PRODUCT_ENDPOINTS.GET_ALL, params, {
+      schema: collectionResponseSchema(productSchema)
+    });
   }
 
   /**
    * Get product by ID
    * API: GET /api/v1/products/{id}
+   * @param fresh - Bypass the response cache (stock and price re-checks)
    */
-  getProductById(id: string): Observable<Product> {
-    return this.api.getItem<Product>(PRODUCT_ENDPOINTS.GET_BY_ID(id))
+  getProductById(id: string, fresh = false): Observable<Product> {
+    return this.api.getItem<Product>(PRODUCT_ENDPOINTS.GET_BY_ID(id), {
+      schema: singleItemResponseSchema(productSchema),
+      cache: !fresh
+    })
       .pipe(
         map(response => response.data)
       );
@@ -223,16 +233,11 @@ export class ProductsService {
   }
 
   /**
-   * Format price for display (EGP)
-   * Delegates to shared utility for consistent formatting
+   * Format price for display in the selected currency
+   * Delegates to CurrencyService for consistent formatting
    */
   formatPrice(price: number): string {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'currency',
-      currency: 'EGP',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(price);
+    return this.currencyService.format(price);
   }
 
   /**
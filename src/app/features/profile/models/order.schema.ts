@@ -0,0 +1,40 @@
+// Order Schemas - Runtime validation for order.model.ts
+// Only fields the UI relies on are checked; extra fields are allowed
+
+import { s } from '../../../shared/utils/schema.utils';
+
+/**
+ * Order Schema
+ * Based on real API response: GET /api/v1/orders/user/{userId}
+ */
+export const orderSchema = s.object({
+  _id: s.string(),
+  user: s.object({
+    _id: s.string(),
+    name: s.string(),
+    email: s.string()
+  }),
+  cartItems: s.array(s.object({
+    count: s.number(),
+    _id: s.string(),
+    product: s.object({
+      _id: s.string(),
+      title: s.string(),
+      imageCover: s.string()
+    }),
+    price: s.number()
+  })),
+  taxPrice: s.number(),
+  shippingPrice: s.number(),
+  totalOrderPrice: s.number(),
+  paymentMethodType: s.literal('cash', 'card'),
+  isPaid: s.boolean(),
+  isDelivered: s.boolean(),
+  createdAt: s.string(),
+  id: s.number()
+});
+
+/**
+ * User Orders Schema - GET /orders/user/{userId} returns a plain array
+ */
+export const userOrdersSchema = s.array(orderSchema);
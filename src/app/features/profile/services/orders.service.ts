@@ -3,8 +3,10 @@ import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 
 import { ApiService } from '../../../core/services/api';
+import { CurrencyService } from '../../../core/services/currency';
 import { ORDER_ENDPOINTS } from '../../../core/constants/api-endpoints.const';
 import { Order, OrderQueryParams, OrderSummary, OrderStatus } from '../models/order.model';
+import { userOrdersSchema } from '../models/order.schema';
 
 /**
  * Orders Service
@@ -16,6 +18,7 @@ import { Order, OrderQueryParams, OrderSummary, OrderStatus } from '../models/or
 })
 export class OrdersService {
   private readonly api = inject(ApiService);
+  private readonly currencyService = inject(CurrencyService);
 
   /**
    * Get all orders for current user
@@ -26,7 +29,7 @@ export class OrdersService {
    */
   getUserOrders(userId: string, params?: OrderQueryParams): Observable<Order[]> {
     const endpoint = ORDER_ENDPOINTS.GET_USER_ORDERS(userId);
-    return this.api.get<Order[]>(endpoint, params);
+    return this.api.get<Order[]>(endpoint, params, { schema: userOrdersSchema });
   }
 
   /**
@@ -127,16 +130,11 @@ export class OrdersService {
   }
 
   /**
-   * Format price with currency
-   * Following the same pattern as cart.utils.ts
+   * Format price in the selected currency
+   * Delegates to CurrencyService (EGP amounts keep up to 2 fraction digits)
    */
   formatPrice(price: number): string {
-    return new Intl.NumberFormat('en-EG', {
-      style: 'currency',
-      currency: 'EGP',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 2
-    }).format(price);
+    return this.currencyService.format(price, 2);
   }
 
   /**
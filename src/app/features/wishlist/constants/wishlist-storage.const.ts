@@ -0,0 +1,25 @@
+import { VersionedStorageDefinition } from '../../../core/models/storage.model';
+import { WishlistPersistenceData } from '../models/wishlist.model';
+import { wishlistPersistenceSchema } from '../models/wishlist.schema';
+
+/**
+ * Guest wishlists untouched for this long are dropped (longer than cart)
+ */
+export const WISHLIST_STORAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Guest wishlist storage schema (WishlistService)
+ * Bump version and add a migration whenever WishlistPersistenceData changes shape
+ */
+export const WISHLIST_STORAGE: VersionedStorageDefinition<WishlistPersistenceData> = {
+  version: 1,
+  schema: wishlistPersistenceSchema,
+  ttlMs: WISHLIST_STORAGE_TTL_MS,
+  migrations: {
+    // v0 -> v1: { productIds, lastUpdated, userId } - save time moved into the envelope
+    1: data => {
+      const { productIds, userId } = data as { productIds?: unknown; userId?: unknown };
+      return { productIds: productIds ?? [], userId: userId ?? null };
+    }
+  }
+};
@@ -60,10 +60,10 @@ export interface WishlistSummary {
 
 /**
  * Wishlist Persistence Data - For localStorage (guest users)
+ * Stored in a versioned envelope (save time lives in the envelope) - see WISHLIST_STORAGE
  */
 export interface WishlistPersistenceData {
   productIds: string[];               // Product IDs in wishlist (simpler than cart)
-  lastUpdated: number;                // When saved
   userId: string | null;              // User ID if authenticated (null for guest)
 }
 
@@ -0,0 +1,11 @@
+// Wishlist Schemas - Runtime validation for wishlist.model.ts
+
+import { s } from '../../../shared/utils/schema.utils';
+
+/**
+ * Wishlist Persistence Schema - guest wishlist saved in storage (current envelope version)
+ */
+export const wishlistPersistenceSchema = s.object({
+  productIds: s.array(s.string()),
+  userId: s.nullable(s.string())
+});
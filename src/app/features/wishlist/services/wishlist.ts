@@ -1,11 +1,13 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable, of } from 'rxjs';
-import { map, catchError, switchMap } from 'rxjs/operators';
+import { map, catchError, switchMap, tap } from 'rxjs/operators';
 
 import { ApiService } from '../../../core/services/api';
 import { StorageService } from '../../../core/services/storage';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
 import { AuthService } from '../../auth/services/auth';
-import { WISHLIST_ENDPOINTS } from '../../../core/constants/api-endpoints.const';
+import { WISHLIST_ENDPOINTS, CACHE_TAGS, STORAGE_KEYS } from '../../../core/constants/api-endpoints.const';
+import { ApiRequestOptions } from '../../../core/models/api-response.model';
 import { extractErrorMessage } from '../../../shared/utils/error.utils';
 import { 
   WishlistApiResponse,
@@ -15,6 +17,7 @@ import {
   WishlistOperationResult
 } from '../models/wishlist.model';
 import { Product } from '../../products/models/product.model';
+import { WISHLIST_STORAGE } from '../constants/wishlist-storage.const';
 
 /**
  * Wishlist Service - API operations and persistence
@@ -33,12 +36,15 @@ export class WishlistService {
   private readonly api = inject(ApiService);
   private readonly storage = inject(StorageService);
   private readonly authService = inject(AuthService);
+  private readonly crossTabSync = inject(CrossTabSyncService);
+
+  // Wishlist writes drop cached product reads so product cards revalidate
+  private readonly MUTATION_OPTIONS: ApiRequestOptions = {
+    invalidateTags: [CACHE_TAGS.PRODUCTS]
+  };
 
   // LocalStorage key for wishlist persistence
-  private readonly WISHLIST_STORAGE_KEY = 'freshcart_wishlist';
-  
-  // Wishlist expiration configuration
-  private readonly WISHLIST_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days (longer than cart)
+  private readonly WISHLIST_STORAGE_KEY = STORAGE_KEYS.GUEST_WISHLIST;
 
   /**
    * Get user's wishlist from API
@@ -86,7 +92,7 @@ export class WishlistService {
     // Chain: POST /wishlist → GET /wishlist to get full product objects
     return this.api.post<WishlistApiResponse>(WISHLIST_ENDPOINTS.ADD_ITEM, {
       productId: request.productId
-    }).pipe(
+    }, this.MUTATION_OPTIONS).pipe(
       switchMap(postResponse => {
         // POST succeeded - now GET the full wishlist with Product objects
         return this.getWishlist().pipe(
@@ -97,6 +103,7 @@ export class WishlistService {
           }))
         );
       }),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Add to wishlist error:', error);
         return of({
@@ -121,7 +128,8 @@ export class WishlistService {
     }
 
     return this.api.delete<WishlistApiResponse>(
-      WISHLIST_ENDPOINTS.REMOVE_ITEM(request.productId)
+      WISHLIST_ENDPOINTS.REMOVE_ITEM(request.productId),
+      this.MUTATION_OPTIONS
     ).pipe(
       switchMap(deleteResponse => {
         // DELETE succeeded - now GET the updated wishlist
@@ -133,6 +141,7 @@ export class WishlistService {
           }))
         );
       }),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Remove from wishlist error:', error);
         return of({
@@ -154,7 +163,7 @@ export class WishlistService {
 
     // Add all local products to server wishlist sequentially
     const addOperations = localProductIds.map(productId =>
-      this.api.post<WishlistApiResponse>(WISHLIST_ENDPOINTS.ADD_ITEM, { productId }).pipe(
+      this.api.post<WishlistApiResponse>(WISHLIST_ENDPOINTS.ADD_ITEM, { productId }, this.MUTATION_OPTIONS).pipe(
         catchError(error => {
           console.error(`Failed to sync wishlist item ${productId}:`, error);
           return of(null); // Continue with other items even if one fails
@@ -170,6 +179,7 @@ export class WishlistService {
         message: `Successfully synced ${localProductIds.length} items`,
         items
       })),
+      tap(() => this.notifyOtherTabs()),
       catchError(error => {
         console.error('Wishlist sync error:', error);
         return of({ 
@@ -184,17 +194,17 @@ export class WishlistService {
 
   /**
    * Save wishlist to localStorage (for guest users)
-   * Stores only product IDs (simpler than cart)
+   * Stores only product IDs (simpler than cart), as a versioned envelope - see WISHLIST_STORAGE
    */
   saveWishlistToStorage(productIds: string[]): void {
     try {
       const wishlistData: WishlistPersistenceData = {
         productIds,
-        lastUpdated: Date.now(),
         userId: this.authService.getCurrentUserId()
       };
       
-      this.storage.setItem(this.WISHLIST_STORAGE_KEY, JSON.stringify(wishlistData));
+      this.storage.setVersionedItem(this.WISHLIST_STORAGE_KEY, wishlistData, WISHLIST_STORAGE);
+      this.notifyOtherTabs();
     } catch (error) {
       console.error('Failed to save wishlist to storage:', error);
     }
@@ -203,35 +213,22 @@ export class WishlistService {
   /**
    * Load wishlist from localStorage
    * Returns array of product IDs
+   * ✅ Older versions are migrated, stale wishlists (WISHLIST_STORAGE_TTL_MS) expire,
+   *    unreadable entries are quarantined by StorageService
    */
   loadWishlistFromStorage(): string[] {
     try {
-      const wishlistDataStr = this.storage.getItem(this.WISHLIST_STORAGE_KEY);
-      if (!wishlistDataStr || typeof wishlistDataStr !== 'string') return [];
-
-      try {
-        const wishlistData: WishlistPersistenceData = JSON.parse(wishlistDataStr);
-        if (!wishlistData || typeof wishlistData !== 'object') return [];
-        
-        // Check if wishlist belongs to current user (if authenticated)
-        const currentUserId = this.authService.getCurrentUserId();
-        if (currentUserId && wishlistData.userId && wishlistData.userId !== currentUserId) {
-          this.clearWishlistFromStorage();
-          return [];
-        }
-
-        // Check if wishlist is not too old (30 days)
-        if (Date.now() - wishlistData.lastUpdated > this.WISHLIST_MAX_AGE_MS) {
-          this.clearWishlistFromStorage();
-          return [];
-        }
+      const wishlistData = this.storage.getVersionedItem(this.WISHLIST_STORAGE_KEY, WISHLIST_STORAGE);
+      if (!wishlistData) return [];
 
-        return wishlistData.productIds || [];
-      } catch (parseError) {
-        console.error('Error parsing wishlist data:', parseError);
+      // Check if wishlist belongs to current user (if authenticated)
+      const currentUserId = this.authService.getCurrentUserId();
+      if (currentUserId && wishlistData.userId && wishlistData.userId !== currentUserId) {
         this.clearWishlistFromStorage();
         return [];
       }
+
+      return wishlistData.productIds;
     } catch (error) {
       console.error('Failed to load wishlist from storage:', error);
       return [];
@@ -244,6 +241,7 @@ export class WishlistService {
   clearWishlistFromStorage(): void {
     try {
       this.storage.removeItem(this.WISHLIST_STORAGE_KEY);
+      this.notifyOtherTabs();
     } catch (error) {
       console.error('Failed to clear wishlist from storage:', error);
     }
@@ -251,6 +249,13 @@ export class WishlistService {
 
   // ===== PRIVATE HELPER METHODS =====
 
+  /**
+   * Let other tabs reload their wishlist (server wishlist or localStorage changed)
+   */
+  private notifyOtherTabs(): void {
+    this.crossTabSync.publish('wishlist:changed');
+  }
+
   /**
    * Execute observables sequentially (for sync operation)
    */
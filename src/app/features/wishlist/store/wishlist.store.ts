@@ -9,12 +9,13 @@ import {
 } from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 import { tapResponse } from '@ngrx/operators';
-import { pipe, switchMap, tap, of } from 'rxjs';
+import { pipe, switchMap, tap, of, forkJoin, map, catchError } from 'rxjs';
 import { MessageService } from 'primeng/api';
 
 import { WishlistService } from '../services/wishlist';
 import { AuthService } from '../../auth/services/auth';
 import { ProductsService } from '../../products/services/products';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync';
 import { 
   WishlistState, 
   WishlistSummary
@@ -47,6 +48,7 @@ const initialWishlistState: WishlistState = {
  * - Authenticated users: Wishlist stored on server (full Product objects)
  * - Login: Syncs local wishlist to server
  * - Logout: Clears wishlist and loads guest wishlist from localStorage
+ * - Other tabs: Wishlist changes made in another tab reload this tab's wishlist
  * 
  * Key Differences from CartStore:
  * - No quantity management (binary: in/out)
@@ -106,51 +108,101 @@ export const WishlistStore = signalStore(
     const wishlistService = inject(WishlistService);
     const authService = inject(AuthService);
     const productsService = inject(ProductsService);
+    const crossTabSync = inject(CrossTabSyncService);
+    
+    /**
+     * Guest wishlist from localStorage IDs
+     * Keeps already loaded products and fetches only the missing ones
+     */
+    const loadGuestWishlist = () => {
+      const productIds = wishlistService.loadWishlistFromStorage();
+      const loaded = store.items().filter(item => productIds.includes(item._id));
+      const missingIds = productIds.filter(id => !loaded.some(item => item._id === id));
+      
+      if (missingIds.length === 0) {
+        return of(loaded);
+      }
+      
+      return forkJoin(missingIds.map(id => productsService.getProductById(id))).pipe(
+        map(missing => [...loaded, ...missing]),
+        catchError(error => {
+          console.error('Failed to load guest wishlist products:', error);
+          return of(loaded);
+        })
+      );
+    };
     
     return {
       onInit() {
         // 👇 Official NgRx initialization pattern - runs when store is created
-        const isAuthenticated = authService.isAuthenticated();
-        patchState(store, { isAuthenticated });
+        patchState(store, { isAuthenticated: authService.isAuthenticated() });
         
-        if (isAuthenticated) {
-          // Check if there are unsynchronized items in localStorage
-          const localProductIds = wishlistService.loadWishlistFromStorage();
+        // Wait for token verification before loading - a rejected token must never be used to sync
+        authService.whenAuthReady().subscribe(() => {
+          const isAuthenticated = authService.isAuthenticated();
+          patchState(store, { isAuthenticated });
           
-          if (localProductIds.length > 0) {
-            // User is authenticated but has local items (race condition scenario)
-            // This happens when:
-            // 1. User logged in and sync started
-            // 2. User refreshed before sync completed
-            // 3. localStorage still has product IDs that weren't synced
-            
-            patchState(store, { isLoading: true, error: null });
+          if (isAuthenticated) {
+            // Check if there are unsynchronized items in localStorage
+            const localProductIds = wishlistService.loadWishlistFromStorage();
             
-            // Sync local items first, then load complete wishlist
-            wishlistService.syncWishlistWithServer(localProductIds).subscribe({
-              next: (result) => {
-                if (result?.success) {
-                  // Sync succeeded - clear localStorage and load from server
-                  wishlistService.clearWishlistFromStorage();
-                  
-                  wishlistService.getWishlist().subscribe({
-                    next: (items) => {
-                      patchState(store, {
-                        items,
-                        lastUpdated: Date.now(),
-                        isLoading: false,
-                        error: null
-                      });
-                    },
-                    error: (error) => {
-                      patchState(store, {
-                        error: error.message || 'Failed to load wishlist after sync',
-                        isLoading: false
-                      });
-                    }
-                  });
-                } else {
-                  // Sync failed - fetch products for local IDs and show error
+            if (localProductIds.length > 0) {
+              // User is authenticated but has local items (race condition scenario)
+              // This happens when:
+              // 1. User logged in and sync started
+              // 2. User refreshed before sync completed
+              // 3. localStorage still has product IDs that weren't synced
+              
+              patchState(store, { isLoading: true, error: null });
+              
+              // Sync local items first, then load complete wishlist
+              wishlistService.syncWishlistWithServer(localProductIds).subscribe({
+                next: (result) => {
+                  if (result?.success) {
+                    // Sync succeeded - clear localStorage and load from server
+                    wishlistService.clearWishlistFromStorage();
+                    
+                    wishlistService.getWishlist().subscribe({
+                      next: (items) => {
+                        patchState(store, {
+                          items,
+                          lastUpdated: Date.now(),
+                          isLoading: false,
+                          error: null
+                        });
+                      },
+                      error: (error) => {
+                        patchState(store, {
+                          error: error.message || 'Failed to load wishlist after sync',
+                          isLoading: false
+                        });
+                      }
+                    });
+                  } else {
+                    // Sync failed - fetch products for local IDs and show error
+                    productsService.getProducts().subscribe({
+                      next: (response) => {
+                        const guestItems = response.data.filter(product => 
+                          localProductIds.includes(product._id)
+                        );
+                        
+                        patchState(store, {
+                          items: guestItems,
+                          error: result?.message || 'Failed to sync wishlist',
+                          isLoading: false
+                        });
+                      },
+                      error: (error) => {
+                        patchState(store, {
+                          error: error.message || 'Failed to load local wishlist',
+                          isLoading: false
+                        });
+                      }
+                    });
+                  }
+                },
+                error: (error) => {
+                  // Sync failed - fetch products for local IDs
                   productsService.getProducts().subscribe({
                     next: (response) => {
                       const guestItems = response.data.filter(product => 
@@ -159,90 +211,82 @@ export const WishlistStore = signalStore(
                       
                       patchState(store, {
                         items: guestItems,
-                        error: result?.message || 'Failed to sync wishlist',
+                        error: error.message || 'Failed to sync wishlist with server',
                         isLoading: false
                       });
                     },
-                    error: (error) => {
+                    error: (loadError) => {
                       patchState(store, {
-                        error: error.message || 'Failed to load local wishlist',
+                        error: loadError.message || 'Failed to load wishlist',
                         isLoading: false
                       });
                     }
                   });
                 }
-              },
-              error: (error) => {
-                // Sync failed - fetch products for local IDs
-                productsService.getProducts().subscribe({
-                  next: (response) => {
-                    const guestItems = response.data.filter(product => 
-                      localProductIds.includes(product._id)
-                    );
-                    
-                    patchState(store, {
-                      items: guestItems,
-                      error: error.message || 'Failed to sync wishlist with server',
-                      isLoading: false
-                    });
-                  },
-                  error: (loadError) => {
-                    patchState(store, {
-                      error: loadError.message || 'Failed to load wishlist',
-                      isLoading: false
-                    });
-                  }
-                });
-              }
-            });
+              });
+            } else {
+              // No local items - just load from API
+              patchState(store, { isLoading: true, error: null });
+              wishlistService.getWishlist().subscribe({
+                next: (items) => {
+                  patchState(store, {
+                    items,
+                    lastUpdated: Date.now(),
+                    isLoading: false,
+                    error: null
+                  });
+                },
+                error: (error) => {
+                  patchState(store, {
+                    error: error.message || 'Failed to load wishlist',
+                    isLoading: false
+                  });
+                }
+              });
+            }
           } else {
-            // No local items - just load from API
-            patchState(store, { isLoading: true, error: null });
-            wishlistService.getWishlist().subscribe({
-              next: (items) => {
-                patchState(store, {
-                  items,
-                  lastUpdated: Date.now(),
-                  isLoading: false,
-                  error: null
-                });
-              },
-              error: (error) => {
-                patchState(store, {
-                  error: error.message || 'Failed to load wishlist',
-                  isLoading: false
-                });
-              }
-            });
-          }
-        } else {
-          // Load from localStorage for guest users (product IDs only)
-          const productIds = wishlistService.loadWishlistFromStorage();
-          
-          if (productIds.length > 0) {
-            // Fetch full Product objects for guest wishlist
-            patchState(store, { isLoading: true });
+            // Load from localStorage for guest users (product IDs only)
+            const productIds = wishlistService.loadWishlistFromStorage();
             
-            // Get all products and filter by IDs
-            productsService.getProducts().subscribe({
-              next: (response) => {
-                const guestItems = response.data.filter(product => 
-                  productIds.includes(product._id)
-                );
-                
-                patchState(store, {
-                  items: guestItems,
-                  lastUpdated: Date.now(),
-                  isLoading: false
-                });
-              },
-              error: (error) => {
-                console.error('Failed to load guest wishlist products:', error);
-                patchState(store, { isLoading: false });
-              }
-            });
+            if (productIds.length > 0) {
+              // Fetch full Product objects for guest wishlist
+              patchState(store, { isLoading: true });
+              
+              // Get all products and filter by IDs
+              productsService.getProducts().subscribe({
+                next: (response) => {
+                  const guestItems = response.data.filter(product => 
+                    productIds.includes(product._id)
+                  );
+                  
+                  patchState(store, {
+                    items: guestItems,
+                    lastUpdated: Date.now(),
+                    isLoading: false
+                  });
+                },
+                error: (error) => {
+                  console.error('Failed to load guest wishlist products:', error);
+                  patchState(store, { isLoading: false });
+                }
+              });
+            }
           }
-        }
+        });
+        
+        // Follow wishlist changes made in other tabs
+        // Reload only - reloading never publishes, so tabs don't ping-pong
+        crossTabSync.on('wishlist:changed').pipe(
+          switchMap(() => store.isAuthenticated()
+            ? wishlistService.getWishlist()
+            : loadGuestWishlist()
+          )
+        ).subscribe((items) => {
+          patchState(store, {
+            items,
+            lastUpdated: Date.now()
+          });
+        });
       }
     };
   }),
@@ -537,13 +581,17 @@ export const WishlistStore = signalStore(
     
     /**
      * Handle authentication state changes - Simple method
+     * @param fromOtherTab - Login happened in another tab, which owns the guest wishlist sync
      */
-    onAuthenticationChange(isAuthenticated: boolean): void {
+    onAuthenticationChange(isAuthenticated: boolean, fromOtherTab = false): void {
       const wasAuthenticated = store.isAuthenticated();
       
       patchState(store, { isAuthenticated });
       
-      if (!wasAuthenticated && isAuthenticated) {
+      if (!wasAuthenticated && isAuthenticated && fromOtherTab) {
+        // Logged in from another tab - just load the server wishlist
+        this.loadWishlistFromApi();
+      } else if (!wasAuthenticated && isAuthenticated) {
         // User just logged in - sync local wishlist with server
         this.syncWishlistWithServer();
       } else if (wasAuthenticated && !isAuthenticated) {
@@ -15,6 +15,7 @@ import { ChipModule } from 'primeng/chip';
 import { Product } from '../../../features/products/models/product.model';
 import { CartStore } from '../../../features/cart/store/cart.store';
 import { WishlistStore } from '../../../features/wishlist/store/wishlist.store';
+import { CurrencyFormatPipe } from '../../pipes/currency-format-pipe';
 
 /**
  * ProductCard Component
@@ -27,6 +28,7 @@ import { WishlistStore } from '../../../features/wishlist/store/wishlist.store';
     FormsModule, 
     RouterModule,
     TranslateModule,
+    CurrencyFormatPipe,
     // PrimeNG
     ButtonModule, 
     BadgeModule, 
@@ -1,12 +1,22 @@
-import { Pipe, PipeTransform } from '@angular/core';
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { CurrencyService } from '../../core/services/currency';
 
+/**
+ * Format an EGP price in the selected display currency
+ * Usage: {{ product.price | currencyFormat }} or {{ order.totalOrderPrice | currencyFormat: 2 }}
+ *
+ * ⚠️ Impure so prices update when the display currency changes
+ */
 @Pipe({
-  name: 'currencyFormat'
+  name: 'currencyFormat',
+  pure: false
 })
 export class CurrencyFormatPipe implements PipeTransform {
+  private readonly currencyService = inject(CurrencyService);
 
-  transform(value: unknown, ...args: unknown[]): unknown {
-    return null;
+  transform(value: number | null | undefined, maximumFractionDigits = 0): string {
+    if (value === null || value === undefined) return '';
+    return this.currencyService.format(value, maximumFractionDigits);
   }
 
 }
@@ -0,0 +1,168 @@
+import {
+  buildCartLineChange,
+  buildCartMergePlan,
+  createLocalCartItem,
+  decodeCartShareCode,
+  encodeCartShareCode,
+  resolveCartMergeConflict
+} from './cart.utils';
+import { CartItem } from '../../features/cart/models/cart.model';
+import { Product } from '../../features/products/models/product.model';
+
+function product(_id: string, overrides: Partial<Product> = {}): Product {
+  return {
+    _id,
+    title: `Product ${_id}`,
+    slug: `product-${_id}`,
+    description: '',
+    quantity: 10,
+    price: 100,
+    sold: 0,
+    imageCover: `${_id}.jpg`,
+    images: [],
+    ratingsAverage: 4,
+    ratingsQuantity: 1,
+    category: { _id: 'c1', name: 'Dairy', slug: 'dairy', image: '' },
+    brand: { _id: 'b1', name: 'Fresh', slug: 'fresh', image: '' },
+    subcategory: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function line(productId: string, quantity: number, overrides: Partial<Product> = {}): CartItem {
+  return createLocalCartItem(product(productId, overrides), quantity);
+}
+
+describe('cart utils', () => {
+  describe('buildCartMergePlan', () => {
+    it('should turn guest-only products into merge lines', () => {
+      const plan = buildCartMergePlan([line('a', 2)], [line('b', 1)]);
+
+      expect(plan.lines).toEqual([{ productId: 'a', count: 2, serverCount: 0 }]);
+      expect(plan.conflicts).toEqual([]);
+    });
+
+    it('should turn products in both carts into conflicts', () => {
+      const server = line('a', 3);
+      const plan = buildCartMergePlan([line('a', 2)], [server]);
+
+      expect(plan.lines).toEqual([]);
+      expect(plan.conflicts).toEqual([{ product: server.product, guestQuantity: 2, serverQuantity: 3 }]);
+    });
+
+    it('should leave server-only products out of the plan', () => {
+      expect(buildCartMergePlan([], [line('a', 1)])).toEqual({ lines: [], conflicts: [] });
+    });
+  });
+
+  describe('resolveCartMergeConflict', () => {
+    const conflict = { product: line('a', 1).product, guestQuantity: 2, serverQuantity: 3 };
+
+    it('should add both quantities', () => {
+      expect(resolveCartMergeConflict(conflict, 'both')).toEqual({ productId: 'a', count: 5, serverCount: 3 });
+    });
+
+    it('should keep the server quantity', () => {
+      expect(resolveCartMergeConflict(conflict, 'server')).toEqual({ productId: 'a', count: 3, serverCount: 3 });
+    });
+
+    it('should keep the guest quantity', () => {
+      expect(resolveCartMergeConflict(conflict, 'guest')).toEqual({ productId: 'a', count: 2, serverCount: 3 });
+    });
+  });
+
+  describe('buildCartLineChange', () => {
+    it('should return null while the line is accurate', () => {
+      expect(buildCartLineChange(line('a', 2), product('a'))).toBeNull();
+    });
+
+    it('should clamp the quantity to the available stock', () => {
+      expect(buildCartLineChange(line('a', 5), product('a', { quantity: 3 }))).toEqual(jasmine.objectContaining({
+        outOfStock: false,
+        previousQuantity: 5,
+        quantity: 3
+      }));
+    });
+
+    it('should flag sold-out lines and keep their quantity', () => {
+      expect(buildCartLineChange(line('a', 2), product('a', { quantity: 0 }))).toEqual(jasmine.objectContaining({
+        outOfStock: true,
+        previousQuantity: 2,
+        quantity: 2
+      }));
+    });
+
+    it('should report a price change against the discounted price', () => {
+      expect(buildCartLineChange(line('a', 1), product('a', { priceAfterDiscount: 80 }))).toEqual(jasmine.objectContaining({
+        previousPrice: 100,
+        price: 80
+      }));
+    });
+
+    it('should not report a change when the line already has the discounted price', () => {
+      expect(buildCartLineChange(line('a', 1, { priceAfterDiscount: 80 }), product('a', { priceAfterDiscount: 80 }))).toBeNull();
+    });
+
+    it('should report the end of a discount', () => {
+      expect(buildCartLineChange(line('a', 1, { priceAfterDiscount: 80 }), product('a'))).toEqual(jasmine.objectContaining({
+        previousPrice: 80,
+        price: 100
+      }));
+    });
+
+    it('should not report an acknowledged price again', () => {
+      expect(buildCartLineChange(line('a', 1), product('a', { priceAfterDiscount: 80 }), 80)).toBeNull();
+    });
+
+    it('should report a price that moved again after acknowledgement', () => {
+      expect(buildCartLineChange(line('a', 1), product('a', { priceAfterDiscount: 70 }), 80)).toEqual(jasmine.objectContaining({
+        previousPrice: 100,
+        price: 70
+      }));
+    });
+
+    it('should keep reporting stock changes on a line with an acknowledged price', () => {
+      expect(buildCartLineChange(line('a', 5), product('a', { quantity: 3, priceAfterDiscount: 80 }), 80)).toEqual(jasmine.objectContaining({
+        quantity: 3,
+        previousPrice: 80,
+        price: 80
+      }));
+    });
+  });
+
+  describe('cart share code', () => {
+    const lines = [
+      { productId: '6428ebc6dc1175abc65ca0b9', quantity: 2 },
+      { productId: '6428e997dc1175abc65ca0a1', quantity: 1 }
+    ];
+
+    it('should round-trip encoded lines', () => {
+      const code = encodeCartShareCode(lines);
+
+      expect(code).toBe('6428ebc6dc1175abc65ca0b9:2,6428e997dc1175abc65ca0a1:1');
+      expect(decodeCartShareCode(code)).toEqual(lines);
+    });
+
+    it('should decode nothing from an empty or missing code', () => {
+      expect(decodeCartShareCode('')).toEqual([]);
+      expect(decodeCartShareCode(null)).toEqual([]);
+      expect(decodeCartShareCode(undefined)).toEqual([]);
+    });
+
+    it('should skip malformed entries and zero quantities', () => {
+      expect(decodeCartShareCode('a:2,b,c:x,d:0,e:-1,f:12345,<script>:1, g:3 ')).toEqual([
+        { productId: 'a', quantity: 2 },
+        { productId: 'g', quantity: 3 }
+      ]);
+    });
+
+    it('should keep the last quantity of a repeated product', () => {
+      expect(decodeCartShareCode('a:2,b:1,a:5')).toEqual([
+        { productId: 'a', quantity: 5 },
+        { productId: 'b', quantity: 1 }
+      ]);
+    });
+  });
+});
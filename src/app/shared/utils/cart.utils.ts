@@ -1,4 +1,13 @@
-import { CartItem, CartProductObject } from '../../features/cart/models/cart.model';
+import {
+  CartItem,
+  CartProductObject,
+  CartMergeChoice,
+  CartMergeConflict,
+  CartMergeLine,
+  CartMergePlan,
+  CartLineChange,
+  CartShareLine
+} from '../../features/cart/models/cart.model';
 import { Product } from '../../features/products/models/product.model';
 
 /**
@@ -31,15 +40,23 @@ export function mapProductToCartProductObject(product: Product): CartProductObje
 }
 
 /**
- * Format price with Egyptian Pound currency
+ * Format an EGP price in a display currency
+ * @param price - Price in EGP
+ * @param currency - Display currency code (EGP by default)
+ * @param rate - Exchange rate from 1 EGP to the display currency
+ * @param maximumFractionDigits - Fraction digits for EGP (converted amounts always show 2)
+ * 
+ * ⚠️ Components should use CurrencyService.format, which passes the selected currency and rate
  */
-export function formatPrice(price: number): string {
+export function formatPrice(price: number, currency = 'EGP', rate = 1, maximumFractionDigits = 0): string {
+  const isConverted = currency !== 'EGP';
+  
   return new Intl.NumberFormat('en-EG', {
     style: 'currency',
-    currency: 'EGP',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(price);
+    currency,
+    minimumFractionDigits: isConverted ? 2 : 0,
+    maximumFractionDigits: isConverted ? 2 : maximumFractionDigits
+  }).format(price * rate);
 }
 
 /**
@@ -71,6 +88,25 @@ export function formatDate(date: Date | string): string {
   }).format(dateObj);
 }
 
+/**
+ * Create a guest (localStorage) cart line from a full Product
+ * Unit price is the current price (discounted when available)
+ */
+export function createLocalCartItem(product: Product, quantity: number): CartItem {
+  const now = new Date().toISOString();
+  const unitPrice = product.priceAfterDiscount || product.price;
+
+  return {
+    _id: `local_${product._id}_${Date.now()}`,
+    product: mapProductToCartProductObject(product),
+    quantity,
+    unitPrice,
+    totalPrice: unitPrice * quantity,
+    addedAt: now,
+    updatedAt: now
+  };
+}
+
 /**
  * Update cart item with recalculated total price
  * Helper for ensuring totalPrice is always in sync with quantity * unitPrice
@@ -81,4 +117,104 @@ export function updateItemTotalPrice(item: CartItem): CartItem {
     totalPrice: item.quantity * item.unitPrice,
     updatedAt: new Date().toISOString()
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Compare the guest cart with the server cart (login merge)
+ * Guest-only products become merge lines, products in both carts become conflicts
+ */
+export function buildCartMergePlan(guestItems: CartItem[], serverItems: CartItem[]): CartMergePlan {
+  const plan: CartMergePlan = { lines: [], conflicts: [] };
+
+  guestItems.forEach(guestItem => {
+    const serverItem = serverItems.find(item => item.product._id === guestItem.product._id);
+
+    if (serverItem) {
+      plan.conflicts.push({
+        product: serverItem.product,
+        guestQuantity: guestItem.quantity,
+        serverQuantity: serverItem.quantity
+      });
+    } else {
+      plan.lines.push({
+        productId: guestItem.product._id,
+        count: guestItem.quantity,
+        serverCount: 0
+      });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Turn a merge conflict into a merge line using the chosen resolution
+ */
+export function resolveCartMergeConflict(conflict: CartMergeConflict, choice: CartMergeChoice): CartMergeLine {
+  const counts: Record<CartMergeChoice, number> = {
+    both: conflict.guestQuantity + conflict.serverQuantity,
+    server: conflict.serverQuantity,
+    guest: conflict.guestQuantity
+  };
+
+  return {
+    productId: conflict.product._id,
+    count: counts[choice],
+    serverCount: conflict.serverQuantity
+  };
+}
+
+/**
+ * Compare a cart line with current product data
+ * Quantities are clamped to the available stock; sold-out lines keep their quantity and are flagged
+ * Price changes are reported against the current price (discounted when available)
+ * @param acknowledgedPrice - Current price the user already acknowledged for this product (not reported again)
+ * @returns The change, or null when the line is still accurate
+ */
+export function buildCartLineChange(item: CartItem, product: Product, acknowledgedPrice?: number): CartLineChange | null {
+  const stock = product.quantity;
+  const price = product.priceAfterDiscount || product.price;
+  const outOfStock = stock <= 0;
+  const quantity = outOfStock ? item.quantity : Math.min(item.quantity, stock);
+  const priceChanged = price !== item.unitPrice && price !== acknowledgedPrice;
+
+  if (!outOfStock && quantity === item.quantity && !priceChanged) {
+    return null;
+  }
+
+  return {
+    productId: item.product._id,
+    title: product.title,
+    outOfStock,
+    previousQuantity: item.quantity,
+    quantity,
+    previousPrice: priceChanged ? item.unitPrice : price,
+    price
+  };
+}
+
+/**
+ * Encode cart lines as a compact share code: "productId:quantity,productId:quantity"
+ * Product IDs and digits are URL-safe, so the code can be used as a query param as is
+ */
+export function encodeCartShareCode(lines: CartShareLine[]): string {
+  return lines.map(line => `${line.productId}:${line.quantity}`).join(',');
+}
+
+/**
+ * Decode a share code from encodeCartShareCode
+ * Malformed entries are skipped; repeated products keep their last quantity
+ */
+export function decodeCartShareCode(code: string | null | undefined): CartShareLine[] {
+  const lines = new Map<string, number>();
+
+  (code ?? '').split(',').forEach(entry => {
+    const match = /^([A-Za-z0-9_-]+):(\d{1,4})$/.exec(entry.trim());
+    const quantity = match ? Number(match[2]) : 0;
+    if (match && quantity > 0) {
+      lines.set(match[1], quantity);
+    }
+  });
+
+  return [...lines].map(([productId, quantity]) => ({ productId, quantity }));
+}
@@ -3,6 +3,8 @@
  * Shared error extraction and formatting functions to eliminate duplication
  */
 
+import { ApiErrorCategory } from '../../core/models/api-response.model';
+
 /**
  * Extract user-friendly error message from API error response
  * Consolidates duplicated extractErrorMessage() from cart.service and checkout.service
@@ -41,6 +43,19 @@ export function extractErrorMessage(error: any): string {
   return 'An unexpected error occurred. Please try again.';
 }
 
+/**
+ * Map an HTTP status code to an error category
+ * Used by errorHandlerInterceptor (global policy) and ApiService (ApiError.category)
+ */
+export function categorizeHttpError(status: number): ApiErrorCategory {
+  if (status === 0) return 'network';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'client';
+  return 'unknown';
+}
+
 /**
  * Check if error is a network error
  */
@@ -32,9 +32,10 @@ export function decodeJwt(token: string): JwtPayload | null {
       return null;
     }
     
-    // Decode the payload (second part)
+    // Decode the payload (second part) - base64url of UTF-8 JSON (names may be non-Latin)
     const payload = parts[1];
-    const decoded = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const decoded = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
     
     return JSON.parse(decoded) as JwtPayload;
   } catch (error) {
@@ -43,6 +44,20 @@ export function decodeJwt(token: string): JwtPayload | null {
   }
 }
 
+/**
+ * Encode an unsigned JWT (alg "none") readable by decodeJwt()
+ * Segments are base64url of UTF-8 JSON (btoa alone throws for non-Latin-1 names, e.g. Arabic)
+ * ⚠️ Local use only (fake backend, fixture replay) - the real API rejects it
+ */
+export function encodeUnsignedJwt(payload: JwtPayload): string {
+  const encode = (value: object) => {
+    const bytes = new TextEncoder().encode(JSON.stringify(value));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+
+  return [encode({ alg: 'none', typ: 'JWT' }), encode(payload), 'unsigned'].join('.');
+}
+
 /**
  * Extract user ID from JWT token
  * @param token - JWT token string
@@ -0,0 +1,89 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+
+import { computeBackoffDelay, parseRetryAfter, resolveRetryDelay } from './retry.utils';
+import { RetryPolicy } from '../../core/models/api-response.model';
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.2,
+  retryableStatuses: [0, 429, 500, 503]
+};
+
+function httpError(status: number, retryAfter?: string): HttpErrorResponse {
+  const headers = retryAfter ? new HttpHeaders({ 'Retry-After': retryAfter }) : new HttpHeaders();
+  return new HttpErrorResponse({ status, headers });
+}
+
+describe('retry utils', () => {
+  describe('parseRetryAfter', () => {
+    it('should read a delay in seconds', () => {
+      expect(parseRetryAfter(new HttpHeaders({ 'Retry-After': '3' }))).toBe(3000);
+    });
+
+    it('should read an HTTP date relative to now', () => {
+      spyOn(Date, 'now').and.returnValue(Date.parse('Mon, 02 Nov 2026 10:00:00 GMT'));
+
+      expect(parseRetryAfter(new HttpHeaders({ 'Retry-After': 'Mon, 02 Nov 2026 10:00:05 GMT' }))).toBe(5000);
+    });
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeNull();
+      expect(parseRetryAfter(new HttpHeaders())).toBeNull();
+      expect(parseRetryAfter(new HttpHeaders({ 'Retry-After': 'soon' }))).toBeNull();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should double the delay per attempt up to maxDelayMs', () => {
+      spyOn(Math, 'random').and.returnValue(0.5); // No jitter
+
+      expect(computeBackoffDelay(POLICY, 1)).toBe(500);
+      expect(computeBackoffDelay(POLICY, 2)).toBe(1000);
+      expect(computeBackoffDelay(POLICY, 3)).toBe(2000);
+      expect(computeBackoffDelay(POLICY, 10)).toBe(10000);
+    });
+
+    it('should keep the jitter within the configured spread', () => {
+      const random = spyOn(Math, 'random');
+
+      random.and.returnValue(0);
+      expect(computeBackoffDelay(POLICY, 2)).toBe(800);
+      random.and.returnValue(0.999999);
+      expect(computeBackoffDelay(POLICY, 2)).toBe(1200);
+    });
+  });
+
+  describe('resolveRetryDelay', () => {
+    beforeEach(() => spyOn(Math, 'random').and.returnValue(0.5));
+
+    it('should not retry statuses outside the policy', () => {
+      expect(resolveRetryDelay(httpError(400), POLICY, 1)).toBeNull();
+      expect(resolveRetryDelay(httpError(404), POLICY, 1)).toBeNull();
+    });
+
+    it('should back off on retryable statuses', () => {
+      expect(resolveRetryDelay(httpError(500), POLICY, 2)).toBe(1000);
+    });
+
+    it('should treat non-HTTP errors as network errors', () => {
+      expect(resolveRetryDelay(new TimeoutError(), POLICY, 1)).toBe(500);
+      expect(resolveRetryDelay(new TimeoutError(), { ...POLICY, retryableStatuses: [500] }, 1)).toBeNull();
+    });
+
+    it('should honour Retry-After on 429 and 503', () => {
+      expect(resolveRetryDelay(httpError(429, '4'), POLICY, 1)).toBe(4000);
+      expect(resolveRetryDelay(httpError(503, '2'), POLICY, 1)).toBe(2000);
+    });
+
+    it('should ignore Retry-After on other statuses', () => {
+      expect(resolveRetryDelay(httpError(500, '4'), POLICY, 1)).toBe(500);
+    });
+
+    it('should give up when Retry-After exceeds maxDelayMs', () => {
+      expect(resolveRetryDelay(httpError(429, '60'), POLICY, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { RetryPolicy } from '../../core/models/api-response.model';
+
+/**
+ * Retry Utility Functions
+ * Pure helpers used by ApiService to compute retry delays
+ */
+
+/**
+ * Statuses where the server may send a Retry-After header
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ * Supports both formats: delay in seconds ("120") and HTTP date
+ * @returns Delay in ms, or null if the header is missing/invalid
+ */
+export function parseRetryAfter(headers: HttpHeaders | null | undefined): number | null {
+  const value = headers?.get('Retry-After');
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with jitter for a given retry attempt (1-based)
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const spread = exponential * policy.jitter;
+  const jittered = exponential - spread + Math.random() * spread * 2;
+
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(0, jittered)));
+}
+
+/**
+ * Resolve the delay before the next retry, or null when the error must not be retried
+ * - Only statuses listed in policy.retryableStatuses are retried
+ * - Retry-After on 429/503 is honoured; if it exceeds maxDelayMs we give up instead of retrying early
+ * - Non-HTTP errors (e.g. rxjs TimeoutError) are treated as network errors (status 0)
+ */
+export function resolveRetryDelay(error: unknown, policy: RetryPolicy, attempt: number): number | null {
+  const status = error instanceof HttpErrorResponse ? error.status : 0;
+
+  if (!policy.retryableStatuses.includes(status)) {
+    return null;
+  }
+
+  if (error instanceof HttpErrorResponse && RETRY_AFTER_STATUSES.includes(status)) {
+    const retryAfter = parseRetryAfter(error.headers);
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    }
+  }
+
+  return computeBackoffDelay(policy, attempt);
+}
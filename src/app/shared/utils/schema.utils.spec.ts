@@ -0,0 +1,80 @@
+import { describeValue, s } from './schema.utils';
+
+describe('schema utils', () => {
+  const productSchema = s.object({
+    _id: s.string(),
+    price: s.number(),
+    priceAfterDiscount: s.optional(s.number()),
+    brand: s.nullable(s.object({ name: s.string() })),
+    tags: s.array(s.string())
+  });
+
+  const product = {
+    _id: 'p1',
+    price: 120,
+    brand: { name: 'Fresh' },
+    tags: ['dairy'],
+    extra: 'ignored'
+  };
+
+  it('should describe runtime types', () => {
+    expect(describeValue(null)).toBe('null');
+    expect(describeValue([])).toBe('array');
+    expect(describeValue({})).toBe('object');
+    expect(describeValue('1')).toBe('string');
+  });
+
+  it('should accept matching values and ignore undeclared keys', () => {
+    expect(productSchema.validate(product, '')).toBeNull();
+    expect(productSchema.validate({ ...product, priceAfterDiscount: 99, brand: null }, '')).toBeNull();
+  });
+
+  it('should reject NaN as a number', () => {
+    expect(s.number().validate(NaN, 'price')).toEqual({ path: 'price', expected: 'number', received: 'number' });
+  });
+
+  it('should report the path of the first mismatch', () => {
+    expect(productSchema.validate({ ...product, price: '120' }, '')).toEqual({
+      path: 'price',
+      expected: 'number',
+      received: 'string'
+    });
+    expect(productSchema.validate({ ...product, brand: { name: 1 } }, 'data')).toEqual({
+      path: 'data.brand.name',
+      expected: 'string',
+      received: 'number'
+    });
+  });
+
+  it('should index array items in the path', () => {
+    const schema = s.object({ data: s.array(productSchema) });
+
+    expect(schema.validate({ data: [product, { ...product, tags: ['a', 2] }] }, '')).toEqual({
+      path: 'data[1].tags[1]',
+      expected: 'string',
+      received: 'number'
+    });
+    expect(schema.validate({ data: {} }, '')).toEqual({ path: 'data', expected: 'array', received: 'object' });
+  });
+
+  it('should treat missing required keys as undefined', () => {
+    const { price, ...withoutPrice } = product;
+
+    expect(productSchema.validate(withoutPrice, '')).toEqual({ path: 'price', expected: 'number', received: 'undefined' });
+  });
+
+  it('should match literals', () => {
+    const status = s.literal('success', 'fail');
+
+    expect(status.validate('fail', 'status')).toBeNull();
+    expect(status.validate('error', 'status')).toEqual({ path: 'status', expected: '"success" | "fail"', received: 'string' });
+  });
+
+  it('should report the deeper mismatch of a union', () => {
+    const schema = s.union(s.string(), s.object({ _id: s.string() }));
+
+    expect(schema.validate('p1', 'product')).toBeNull();
+    expect(schema.validate({ _id: 'p1' }, 'product')).toBeNull();
+    expect(schema.validate({ _id: 1 }, 'product')?.path).toBe('product._id');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Schema Utility Functions
+ * Minimal runtime schemas used to validate API response shapes
+ *
+ * - Objects allow extra keys (the API adds fields over time) - only declared keys are checked
+ * - Validation stops at the first mismatch and reports its path (e.g. "data.products[0].price")
+ */
+
+/**
+ * Schema validation issue
+ */
+export interface SchemaIssue {
+  path: string;                       // Failing path from the response root
+  expected: string;                   // Expected type description
+  received: string;                   // Actual type found
+}
+
+/**
+ * Runtime schema for values of type T
+ * T is only used for static typing (Infer<S>)
+ */
+export interface Schema<T> {
+  readonly description: string;
+  validate(value: unknown, path: string): SchemaIssue | null;
+  readonly __type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/**
+ * Describe the runtime type of a value for error messages
+ */
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(description: string, check: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    validate: (value, path) => check(value)
+      ? null
+      : { path, expected: description, received: describeValue(value) }
+  };
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+export const s = {
+  string: (): Schema<string> => primitive('string', value => typeof value === 'string'),
+
+  number: (): Schema<number> => primitive('number', value => typeof value === 'number' && !Number.isNaN(value)),
+
+  boolean: (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean'),
+
+  unknown: (): Schema<unknown> => primitive('unknown', () => true),
+
+  literal: <T extends string | number | boolean>(...values: T[]): Schema<T> =>
+    primitive(values.map(v => JSON.stringify(v)).join(' | '), value => values.includes(value as T)),
+
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    description: `${schema.description} | undefined`,
+    validate: (value, path) => value === undefined ? null : schema.validate(value, path)
+  }),
+
+  nullable: <T>(schema: Schema<T>): Schema<T | null> => ({
+    description: `${schema.description} | null`,
+    validate: (value, path) => value === null ? null : schema.validate(value, path)
+  }),
+
+  union: <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> => ({
+    description: `${a.description} | ${b.description}`,
+    validate: (value, path) => {
+      const issueA = a.validate(value, path);
+      if (!issueA) return null;
+      const issueB = b.validate(value, path);
+      if (!issueB) return null;
+      // Report the deeper mismatch - it is usually the more useful one
+      return issueA.path.length >= issueB.path.length ? issueA : issueB;
+    }
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    description: `${item.description}[]`,
+    validate: (value, path) => {
+      if (!Array.isArray(value)) {
+        return { path, expected: 'array', received: describeValue(value) };
+      }
+      for (let index = 0; index < value.length; index++) {
+        const issue = item.validate(value[index], `${path}[${index}]`);
+        if (issue) return issue;
+      }
+      return null;
+    }
+  }),
+
+  object: <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+    description: 'object',
+    validate: (value, path) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return { path, expected: 'object', received: describeValue(value) };
+      }
+      for (const key of Object.keys(shape)) {
+        const issue = shape[key].validate((value as Record<string, unknown>)[key], joinPath(path, key));
+        if (issue) return issue;
+      }
+      return null;
+    }
+  })
+};
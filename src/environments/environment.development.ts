@@ -5,6 +5,7 @@ export const environment = {
     appName: 'FreshCart',
     version: '1.0.0',
     enableDebugLog: true,
+    useFakeBackend: false, // Serve API from the in-memory fake backend (offline development)
     cacheTimeout: 300000 // 5 minutes
   };
   
\ No newline at end of file
@@ -5,6 +5,7 @@ export const environment = {
     appName: 'FreshCart',
     version: '1.0.0',
     enableDebugLog: false,
+    useFakeBackend: false, // Serve API from the in-memory fake backend (offline development)
     cacheTimeout: 600000 // 10 minutes
   };
   
\ No newline at end of file